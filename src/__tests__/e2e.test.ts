@@ -0,0 +1,564 @@
+import { spawn, ChildProcess } from 'child_process';
+import { promises as fs } from 'fs';
+import { createServer as createNetServer, AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { MockUpstageServer, mockResponses } from '../mock/mockUpstageServer';
+
+const PROJECT_ROOT = path.resolve(__dirname, '..', '..');
+const SERVER_ARGS = ['--import', 'tsx', path.join(PROJECT_ROOT, 'src', 'index.ts')];
+
+async function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createNetServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function waitForHealth(url: string, timeoutMs: number = 20000): Promise<any> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      const response = await fetch(url);
+      if (response.ok) {
+        return response.json();
+      }
+    } catch {
+      // Server not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  throw new Error(`Server did not become healthy at ${url}`);
+}
+
+/**
+ * Shared scenarios run against both transports
+ */
+function describeToolCalls(getContext: () => { client: Client; mock: MockUpstageServer; documentPath: string }) {
+  it('lists every registered tool with input and output schemas', async () => {
+    const { client } = getContext();
+    const { tools } = await client.listTools();
+    const names = tools.map((tool) => tool.name);
+
+    expect(names).toEqual(
+      expect.arrayContaining(['parse_document', 'extract_information', 'generate_schema', 'classify_document'])
+    );
+    for (const tool of tools) {
+      expect(tool.inputSchema.type).toBe('object');
+      expect(tool.outputSchema?.type).toBe('object');
+    }
+  });
+
+  it('parses a document and reports progress', async () => {
+    const { client, documentPath } = getContext();
+    const progress: number[] = [];
+
+    const result = await client.callTool(
+      { name: 'parse_document', arguments: { file_path: documentPath, ocr: 'auto' } },
+      undefined,
+      { onprogress: (update) => progress.push(update.progress) }
+    );
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as any;
+    expect(structured.elements).toHaveLength(2);
+    expect(structured.content.markdown).toContain('Mock Document');
+    await expect(fs.stat(structured.saved_to)).resolves.toBeDefined();
+    expect(progress[0]).toBe(10);
+    expect(getContext().mock.requestsFor('DOCUMENT_DIGITIZATION')[0].body.ocr).toBe('auto');
+  });
+
+  it('extracts information with a custom schema', async () => {
+    const { client, documentPath } = getContext();
+    const schema = {
+      type: 'json_schema',
+      json_schema: {
+        name: 'document_schema',
+        schema: {
+          type: 'object',
+          properties: {
+            invoice_number: { type: 'string', description: 'Invoice number' },
+            total_amount: { type: 'number', description: 'Total amount' },
+          },
+        },
+      },
+    };
+
+    const result = await client.callTool({
+      name: 'extract_information',
+      arguments: { file_path: documentPath, schema_json: JSON.stringify(schema), auto_generate_schema: false },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect((result.structuredContent as any).extracted_data).toEqual({
+      invoice_number: 'mock value',
+      total_amount: 42,
+    });
+  });
+
+  it('retries a failing classification request', async () => {
+    const { client, mock, documentPath } = getContext();
+    mock.enqueue('DOCUMENT_CLASSIFICATION', mockResponses.serverError());
+
+    const result = await client.callTool({
+      name: 'classify_document',
+      arguments: { file_path: documentPath },
+    });
+
+    expect((result.structuredContent as any).classification).toBe('invoice');
+    expect(mock.requestsFor('DOCUMENT_CLASSIFICATION')).toHaveLength(2);
+  });
+
+  it('returns a tool error for a malformed API response', async () => {
+    const { client, mock, documentPath } = getContext();
+    mock.enqueue('SCHEMA_GENERATION', mockResponses.malformedChoices());
+
+    const result = await client.callTool({ name: 'generate_schema', arguments: { file_path: documentPath } });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toContain('Invalid response from schema generation API');
+  });
+
+  it('extracts information with a schema saved by edit_schema', async () => {
+    const { client, documentPath } = getContext();
+    const schema = {
+      type: 'json_schema',
+      json_schema: { name: 'document_schema', schema: { type: 'object', properties: { total: { type: 'number' } } } },
+    };
+
+    const edited = await client.callTool({
+      name: 'edit_schema',
+      arguments: {
+        schema_json: JSON.stringify(schema),
+        operations: [{ op: 'add', path: 'invoice_number', type: 'string', description: 'Invoice number' }],
+      },
+    });
+    const result = await client.callTool({
+      name: 'extract_information',
+      arguments: { file_path: documentPath, schema_path: (edited.structuredContent as any).metadata.schema_saved_to },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect((result.structuredContent as any).extracted_data).toEqual({ total: 42, invoice_number: 'mock value' });
+  });
+
+  it('extracts information with a schema written by generate_schema', async () => {
+    const { client, documentPath } = getContext();
+
+    const generated = await client.callTool({ name: 'generate_schema', arguments: { file_path: documentPath } });
+    const result = await client.callTool({
+      name: 'extract_information',
+      arguments: { file_path: documentPath, schema_path: (generated.structuredContent as any).metadata.schema_saved_to },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect((result.structuredContent as any).extracted_data).toEqual({ company_name: 'mock value', total_amount: 42 });
+  });
+
+  it('reports an invalid schema passed to edit_schema as INVALID_SCHEMA', async () => {
+    const { client } = getContext();
+
+    const result = await client.callTool({
+      name: 'edit_schema',
+      arguments: {
+        schema_json: JSON.stringify({ schema: { type: 'object', properties: {} } }),
+        operations: [{ op: 'remove', path: 'total' }],
+      },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result._meta as any).error).toMatchObject({ code: 'INVALID_SCHEMA' });
+  });
+
+  it('saves a schema written by generate_schema in the schema library', async () => {
+    const { client, documentPath } = getContext();
+
+    const generated = await client.callTool({ name: 'generate_schema', arguments: { file_path: documentPath } });
+    const saved = await client.callTool({
+      name: 'save_schema',
+      arguments: { name: 'generated', schema_path: (generated.structuredContent as any).metadata.schema_saved_to },
+    });
+
+    expect(saved.isError).toBeFalsy();
+    expect((saved.structuredContent as any).schema).toEqual((generated.structuredContent as any).schema.json_schema);
+  });
+
+  it('returns a tool error when the model output is not JSON', async () => {
+    const { client, mock, documentPath } = getContext();
+    mock.enqueue('INFORMATION_EXTRACTION', mockResponses.completion('not json'));
+    const schema = {
+      type: 'json_schema',
+      json_schema: { name: 'document_schema', schema: { type: 'object', properties: { total: { type: 'number' } } } },
+    };
+
+    const result = await client.callTool({
+      name: 'extract_information',
+      arguments: { file_path: documentPath, schema_json: JSON.stringify(schema), auto_generate_schema: false },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result._meta as any).error).toMatchObject({ code: 'UPSTAGE_INVALID_RESPONSE' });
+    expect((result.content as any)[0].text).toContain('Information extraction returned content that is not valid JSON');
+  });
+
+  it('returns a tool error when the model output is JSON but not an object', async () => {
+    const { client, mock, documentPath } = getContext();
+    mock.enqueue('INFORMATION_EXTRACTION', mockResponses.completion('[1, 2]'));
+    const schema = {
+      type: 'json_schema',
+      json_schema: { name: 'document_schema', schema: { type: 'object', properties: { total: { type: 'number' } } } },
+    };
+
+    const result = await client.callTool({
+      name: 'extract_information',
+      arguments: { file_path: documentPath, schema_json: JSON.stringify(schema), auto_generate_schema: false },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result._meta as any).error).toMatchObject({ code: 'UPSTAGE_INVALID_RESPONSE', hint: expect.any(String) });
+    expect((result.content as any)[0].text).toContain('Information extraction returned an array instead of an object');
+  });
+
+  it('reports a missing or unreadable schema file as a validation error', async () => {
+    const { client, documentPath } = getContext();
+    const brokenSchemaPath = path.join(path.dirname(documentPath), 'broken_schema.json');
+    await fs.writeFile(brokenSchemaPath, '{ not json');
+
+    const missing = await client.callTool({
+      name: 'extract_information',
+      arguments: { file_path: documentPath, schema_path: '/nonexistent/schema.json' },
+    });
+    const broken = await client.callTool({
+      name: 'extract_information',
+      arguments: { file_path: documentPath, schema_path: brokenSchemaPath },
+    });
+
+    expect(missing.isError).toBe(true);
+    expect((missing._meta as any).error).toMatchObject({ code: 'FILE_NOT_FOUND', hint: expect.stringContaining('generate_schema') });
+    expect(broken.isError).toBe(true);
+    expect((broken._meta as any).error).toMatchObject({ code: 'INVALID_SCHEMA', hint: expect.any(String) });
+
+    const brokenClassification = await client.callTool({
+      name: 'classify_document',
+      arguments: { file_path: documentPath, schema_path: brokenSchemaPath },
+    });
+    expect(brokenClassification.isError).toBe(true);
+    expect((brokenClassification._meta as any).error).toMatchObject({ code: 'INVALID_SCHEMA', hint: expect.any(String) });
+  });
+
+  it('returns a tool error for a missing file', async () => {
+    const { client } = getContext();
+
+    const result = await client.callTool({
+      name: 'parse_document',
+      arguments: { file_path: '/nonexistent/document.pdf' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toContain('File not found');
+    expect((result.content as any)[0].text).toContain('Code: FILE_NOT_FOUND');
+    expect((result._meta as any).error).toMatchObject({ code: 'FILE_NOT_FOUND', retryable: false });
+  });
+
+  it('returns the Upstage status and a hint for rejected API keys', async () => {
+    const { client, mock, documentPath } = getContext();
+    mock.enqueue('DOCUMENT_CLASSIFICATION', mockResponses.clientError(401, 'Invalid API key'));
+
+    const result = await client.callTool({ name: 'classify_document', arguments: { file_path: documentPath } });
+
+    expect(result.isError).toBe(true);
+    const error = (result._meta as any).error;
+    expect(error).toMatchObject({ code: 'UPSTAGE_AUTH_ERROR', status: 401, retryable: false });
+    expect(error.hint).toContain('UPSTAGE_API_KEY');
+  });
+
+  it('reports invalid arguments as InvalidParams', async () => {
+    const { client } = getContext();
+
+    await expect(
+      client.callTool({ name: 'parse_document', arguments: { file_path: 42 } })
+    ).rejects.toMatchObject({ code: -32602, message: expect.stringContaining('file_path') });
+    await expect(client.callTool({ name: 'no_such_tool', arguments: {} })).rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('lists saved results as resources', async () => {
+    const { client } = getContext();
+    const { resources } = await client.listResources();
+
+    expect(resources.some((resource) => resource.uri.startsWith('upstage://outputs/document_parsing/'))).toBe(true);
+  });
+}
+
+describe('MCP server end-to-end', () => {
+  const mock = new MockUpstageServer();
+  let homeDir: string;
+  let documentPath: string;
+  let serverEnv: Record<string, string>;
+
+  beforeAll(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-upstage-e2e-'));
+    documentPath = path.join(homeDir, 'invoice.pdf');
+    await fs.writeFile(documentPath, '%PDF-1.4 mock');
+    await mock.start();
+
+    serverEnv = {
+      ...(process.env as Record<string, string>),
+      HOME: homeDir,
+      UPSTAGE_API_KEY: 'test-key',
+      UPSTAGE_BASE_URL: mock.baseUrl,
+      UPSTAGE_CACHE_DISABLED: 'true',
+    };
+  });
+
+  afterAll(async () => {
+    await mock.close();
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  describe('over stdio', () => {
+    let client: Client;
+
+    beforeAll(async () => {
+      client = new Client({ name: 'e2e-test', version: '1.0.0' });
+      await client.connect(
+        new StdioClientTransport({
+          command: process.execPath,
+          args: SERVER_ARGS,
+          env: serverEnv,
+          cwd: PROJECT_ROOT,
+          stderr: 'ignore',
+        })
+      );
+    });
+
+    afterAll(async () => {
+      await client.close();
+    });
+
+    describeToolCalls(() => ({ client, mock, documentPath }));
+  });
+
+  describe('over HTTP', () => {
+    let client: Client;
+    let serverProcess: ChildProcess;
+    let port: number;
+
+    beforeAll(async () => {
+      port = await getFreePort();
+      serverProcess = spawn(process.execPath, [...SERVER_ARGS, '--http', '--port', String(port)], {
+        env: serverEnv,
+        cwd: PROJECT_ROOT,
+        stdio: 'ignore',
+      });
+      await waitForHealth(`http://127.0.0.1:${port}/health`);
+
+      client = new Client({ name: 'e2e-test', version: '1.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+    });
+
+    afterAll(async () => {
+      await client.close();
+      serverProcess.kill();
+    });
+
+    describeToolCalls(() => ({ client, mock, documentPath }));
+
+    it('reports the configured endpoints on /health', async () => {
+      const health = await waitForHealth(`http://127.0.0.1:${port}/health`);
+
+      expect(health.endpoints.DOCUMENT_DIGITIZATION).toBe(`${mock.baseUrl}/document-digitization`);
+    });
+  });
+
+  describe('over HTTP with authentication', () => {
+    let serverProcess: ChildProcess;
+    let mcpUrl: URL;
+
+    const connect = async (headers: Record<string, string>) => {
+      const client = new Client({ name: 'e2e-test', version: '1.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(mcpUrl, { requestInit: { headers } }));
+      return client;
+    };
+
+    beforeAll(async () => {
+      const port = await getFreePort();
+      const env: Record<string, string> = {
+        ...serverEnv,
+        MCP_AUTH_TOKENS: 'team-token,other-token',
+        MCP_CORS_ORIGINS: 'https://app.example.com',
+      };
+      delete env.UPSTAGE_API_KEY;
+      delete env.UPSTAGE_CACHE_DISABLED;
+      serverProcess = spawn(process.execPath, [...SERVER_ARGS, '--http', '--port', String(port)], {
+        env,
+        cwd: PROJECT_ROOT,
+        stdio: 'ignore',
+      });
+      await waitForHealth(`http://127.0.0.1:${port}/health`);
+      mcpUrl = new URL(`http://127.0.0.1:${port}/mcp`);
+    });
+
+    afterAll(() => {
+      serverProcess.kill();
+    });
+
+    it('rejects requests without a valid bearer token', async () => {
+      const response = await fetch(mcpUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong-token' },
+        body: '{}',
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toContain('invalid_token');
+    });
+
+    it("does not let another unnamed token use a client's session", async () => {
+      const client = new Client({ name: 'e2e-test', version: '1.0.0' });
+      const transport = new StreamableHTTPClientTransport(mcpUrl, {
+        requestInit: { headers: { Authorization: 'Bearer team-token' } },
+      });
+      await client.connect(transport);
+      try {
+        const response = await fetch(mcpUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            Authorization: 'Bearer other-token',
+            'mcp-session-id': transport.sessionId!,
+          },
+          body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+        });
+
+        expect(response.status).toBe(403);
+      } finally {
+        await client.close();
+      }
+    });
+
+    it("uses the client's Upstage API key from the X-Upstage-Api-Key header", async () => {
+      const client = await connect({ Authorization: 'Bearer team-token', 'X-Upstage-Api-Key': 'client-key' });
+      try {
+        const result = await client.callTool({ name: 'classify_document', arguments: { file_path: documentPath } });
+
+        expect(result.isError).toBeFalsy();
+        expect(mock.requestsFor('DOCUMENT_CLASSIFICATION')[0].headers.authorization).toBe('Bearer client-key');
+      } finally {
+        await client.close();
+      }
+    });
+
+    it('does not let another Upstage API key read a parse job', async () => {
+      const owner = await connect({ Authorization: 'Bearer team-token', 'X-Upstage-Api-Key': 'client-key' });
+      const other = await connect({ Authorization: 'Bearer other-token', 'X-Upstage-Api-Key': 'other-key' });
+      try {
+        const submitted = await owner.callTool({ name: 'submit_parse_job', arguments: { file_path: documentPath } });
+        const jobId = (submitted.structuredContent as any).job_id;
+
+        for (const name of ['get_job_status', 'get_job_result']) {
+          const result = await other.callTool({ name, arguments: { job_id: jobId } });
+
+          expect(result.isError).toBe(true);
+          expect((result._meta as any).error.code).toBe('NOT_FOUND');
+        }
+        expect(mock.requestsFor('DOCUMENT_DIGITIZATION_REQUESTS')).toHaveLength(0);
+
+        const status = await owner.callTool({ name: 'get_job_status', arguments: { job_id: jobId } });
+        expect(status.isError).toBeFalsy();
+      } finally {
+        await owner.close();
+        await other.close();
+      }
+    });
+
+    it("keeps each client's saved results and cache entries to itself", async () => {
+      const owner = await connect({ Authorization: 'Bearer team-token', 'X-Upstage-Api-Key': 'owner-key' });
+      const other = await connect({ Authorization: 'Bearer other-token', 'X-Upstage-Api-Key': 'other-key' });
+      try {
+        const parsed = await owner.callTool({ name: 'parse_document', arguments: { file_path: documentPath } });
+        expect(parsed.isError).toBeFalsy();
+
+        const { resources } = await owner.listResources();
+        const ownResult = resources.find((resource) => resource.uri.startsWith('upstage://outputs/document_parsing/'));
+        expect(ownResult).toBeDefined();
+        expect((await other.listResources()).resources).toEqual([]);
+        await expect(other.readResource({ uri: ownResult!.uri })).rejects.toThrow();
+
+        const inspect = async (client: Client) =>
+          (await client.callTool({ name: 'manage_cache', arguments: { action: 'inspect' } })).structuredContent as any;
+        expect((await inspect(owner)).cache.entries).toBe(1);
+        expect((await inspect(other)).cache.entries).toBe(0);
+
+        const cleared = await other.callTool({ name: 'manage_cache', arguments: { action: 'clear' } });
+        expect((cleared.structuredContent as any).removed).toBe(0);
+        expect((await inspect(owner)).cache.entries).toBe(1);
+      } finally {
+        await owner.close();
+        await other.close();
+      }
+    });
+
+    it('does not save another output file for a cached result', async () => {
+      const client = await connect({ Authorization: 'Bearer team-token', 'X-Upstage-Api-Key': 'repeat-key' });
+      try {
+        const parse = async () =>
+          ((await client.callTool({ name: 'parse_document', arguments: { file_path: documentPath } })).structuredContent as any)
+            .saved_to as string;
+
+        const first = await parse();
+        const filesAfterFirst = await fs.readdir(path.dirname(first));
+        const second = await parse();
+
+        expect(second).toBe(first);
+        expect(await fs.readdir(path.dirname(first))).toEqual(filesAfterFirst);
+        expect(mock.requestsFor('DOCUMENT_DIGITIZATION')).toHaveLength(1);
+      } finally {
+        await client.close();
+      }
+    });
+
+    it('returns a tool error when no Upstage API key is available', async () => {
+      const client = await connect({ Authorization: 'Bearer team-token' });
+      try {
+        const result = await client.callTool({ name: 'classify_document', arguments: { file_path: documentPath } });
+
+        expect(result.isError).toBe(true);
+        expect((result.content as any)[0].text).toContain('No Upstage API key');
+      } finally {
+        await client.close();
+      }
+    });
+
+    it('runs tools that do not call Upstage without an API key', async () => {
+      const client = await connect({ Authorization: 'Bearer team-token' });
+      try {
+        const result = await client.callTool({ name: 'list_schemas', arguments: {} });
+
+        expect(result.isError).toBeFalsy();
+        expect((result.structuredContent as any).schemas.length).toBeGreaterThan(0);
+      } finally {
+        await client.close();
+      }
+    });
+
+    it('only allows configured CORS origins', async () => {
+      const preflight = (origin: string) =>
+        fetch(mcpUrl, { method: 'OPTIONS', headers: { Origin: origin, 'Access-Control-Request-Method': 'POST' } });
+
+      expect((await preflight('https://app.example.com')).status).toBe(200);
+      expect((await preflight('https://evil.example.com')).status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Authentication, per-client Upstage keys and CORS for the HTTP transport
+ */
+
+import { createHash } from 'crypto';
+import axios from 'axios';
+import express from 'express';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { InvalidTokenError, ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { AuthTokenConfig, HttpConfig, OAuthConfig } from './utils/index.js';
+
+/** Header a client can use to bring its own Upstage API key */
+export const UPSTAGE_API_KEY_HEADER = 'x-upstage-api-key';
+
+/** Lifetime reported for static tokens, which never expire */
+const STATIC_TOKEN_TTL_SECONDS = 60 * 60;
+
+const LOCALHOST_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+/** Path of the OAuth 2.0 Protected Resource Metadata document (RFC 9728) */
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+export interface HttpSecurityConfig {
+  tokens: AuthTokenConfig[];
+  oauth?: OAuthConfig;
+  allowedOrigins?: string[];
+  publicUrl?: string;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Merge the config file's http section with the MCP_AUTH_TOKENS and MCP_CORS_ORIGINS environment variables
+ */
+export function resolveHttpSecurityConfig(httpConfig: HttpConfig = {}): HttpSecurityConfig {
+  const envTokens = splitList(process.env.MCP_AUTH_TOKENS).map((token) => ({ token }));
+  const envOrigins = splitList(process.env.MCP_CORS_ORIGINS);
+
+  return {
+    tokens: [...(httpConfig.auth?.tokens || []), ...envTokens],
+    oauth: httpConfig.auth?.oauth,
+    allowedOrigins: envOrigins.length > 0 ? envOrigins : httpConfig.cors?.allowedOrigins,
+    publicUrl: httpConfig.publicUrl,
+  };
+}
+
+export function isAuthEnabled(config: HttpSecurityConfig): boolean {
+  return config.tokens.length > 0 || !!config.oauth;
+}
+
+/**
+ * URL of the MCP endpoint, which OAuth tokens must name as their audience
+ */
+function resourceUrl(config: HttpSecurityConfig, baseUrl: string): string {
+  return new URL('/mcp', config.publicUrl || baseUrl).href;
+}
+
+/**
+ * Token verifier that accepts configured static tokens, then falls back to OAuth token introspection
+ * @param config - Resolved HTTP security settings
+ * @param resource - URL of the MCP endpoint that introspected tokens must be issued for
+ */
+export function createTokenVerifier(config: HttpSecurityConfig, resource: string): OAuthTokenVerifier {
+  const staticTokens = new Map(config.tokens.map((entry) => [entry.token, entry]));
+
+  return {
+    async verifyAccessToken(token: string): Promise<AuthInfo> {
+      const entry = staticTokens.get(token);
+      if (entry) {
+        return {
+          token,
+          // Unnamed tokens must not share a client id, or they could use each other's sessions
+          clientId: entry.name || `static-${createHash('sha256').update(token).digest('hex').slice(0, 16)}`,
+          scopes: [],
+          expiresAt: Math.floor(Date.now() / 1000) + STATIC_TOKEN_TTL_SECONDS,
+          extra: { upstageApiKey: entry.upstageApiKey },
+        };
+      }
+
+      if (!config.oauth) {
+        throw new InvalidTokenError('Invalid access token');
+      }
+
+      return introspectToken(token, config.oauth, resource);
+    },
+  };
+}
+
+/**
+ * Whether a token audience names this server; trailing slashes are ignored
+ */
+function matchesAudience(audience: unknown, resource: string): boolean {
+  const normalize = (url: string) => url.replace(/\/+$/, '');
+  const audiences = Array.isArray(audience) ? audience : [audience];
+  return audiences.some((entry) => typeof entry === 'string' && normalize(entry) === normalize(resource));
+}
+
+async function introspectToken(token: string, oauth: OAuthConfig, resource: string): Promise<AuthInfo> {
+  let data: any;
+  try {
+    const response = await axios.post(oauth.introspectionEndpoint, new URLSearchParams({ token }).toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      auth: oauth.clientId ? { username: oauth.clientId, password: oauth.clientSecret || '' } : undefined,
+      timeout: 10000,
+    });
+    data = response.data;
+  } catch (error: any) {
+    throw new ServerError(`Token introspection failed: ${error.message}`);
+  }
+
+  if (!data?.active) {
+    throw new InvalidTokenError('Token is not active');
+  }
+  // Tokens issued for other services must not be accepted here (RFC 8707 audience binding)
+  if (!matchesAudience(data.aud, resource)) {
+    throw new InvalidTokenError('Token was not issued for this server');
+  }
+
+  const clientId = data.client_id || data.sub || 'oauth-client';
+  return {
+    token,
+    clientId,
+    scopes: typeof data.scope === 'string' ? data.scope.split(' ').filter(Boolean) : [],
+    expiresAt: data.exp,
+    extra: { upstageApiKey: oauth.upstageApiKeys?.[clientId] },
+  };
+}
+
+/**
+ * Require a valid bearer token, advertising the protected resource metadata when OAuth is configured
+ * @param config - Resolved HTTP security settings
+ * @param baseUrl - URL the server is reachable at when no publicUrl is configured
+ */
+export function bearerAuthMiddleware(config: HttpSecurityConfig, baseUrl: string): express.RequestHandler {
+  return requireBearerAuth({
+    verifier: createTokenVerifier(config, resourceUrl(config, baseUrl)),
+    requiredScopes: config.oauth?.requiredScopes,
+    resourceMetadataUrl: config.oauth
+      ? new URL(PROTECTED_RESOURCE_METADATA_PATH, config.publicUrl || baseUrl).href
+      : undefined,
+  });
+}
+
+/**
+ * Serve the protected resource metadata that points MCP clients at the authorization server
+ */
+export function protectedResourceMetadataHandler(config: HttpSecurityConfig, baseUrl: string): express.RequestHandler {
+  return (_req, res) => {
+    if (!config.oauth) {
+      res.status(404).json({ error: 'OAuth is not configured' });
+      return;
+    }
+
+    res.json({
+      resource: resourceUrl(config, baseUrl),
+      authorization_servers: [config.oauth.issuer],
+      scopes_supported: config.oauth.requiredScopes || [],
+      bearer_methods_supported: ['header'],
+    });
+  };
+}
+
+/**
+ * Let clients bring their own Upstage API key through the X-Upstage-Api-Key header
+ */
+export function upstageApiKeyMiddleware(): express.RequestHandler {
+  return (req, _res, next) => {
+    const headerKey = req.headers[UPSTAGE_API_KEY_HEADER];
+    if (typeof headerKey === 'string' && headerKey) {
+      req.auth = req.auth
+        ? { ...req.auth, extra: { ...req.auth.extra, upstageApiKey: headerKey } }
+        : { token: '', clientId: 'anonymous', scopes: [], extra: { upstageApiKey: headerKey } };
+    }
+    next();
+  };
+}
+
+/**
+ * CORS restricted to the configured origins (localhost origins only when none are configured)
+ */
+export function corsMiddleware(allowedOrigins?: string[]): express.RequestHandler {
+  const isAllowed = (origin: string) =>
+    allowedOrigins ? allowedOrigins.includes('*') || allowedOrigins.includes(origin) : LOCALHOST_ORIGIN.test(origin);
+
+  return (req, res, next) => {
+    const origin = req.headers.origin;
+
+    if (origin && !isAllowed(origin)) {
+      res.status(403).json({ error: `Origin not allowed: ${origin}` });
+      return;
+    }
+
+    if (origin) {
+      res.header('Access-Control-Allow-Origin', origin);
+      res.header('Vary', 'Origin');
+      res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.header(
+        'Access-Control-Allow-Headers',
+        'Content-Type, Authorization, Accept, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID, X-Upstage-Api-Key'
+      );
+      res.header('Access-Control-Expose-Headers', 'Mcp-Session-Id, WWW-Authenticate');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(200);
+      return;
+    }
+
+    next();
+  };
+}
@@ -1,162 +1,176 @@
 import express from 'express';
 import dotenv from 'dotenv';
+import { randomUUID } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from './server.js';
+import { getApiEndpoints, loadConfigFile } from './utils/index.js';
+import {
+  PROTECTED_RESOURCE_METADATA_PATH,
+  bearerAuthMiddleware,
+  corsMiddleware,
+  isAuthEnabled,
+  protectedResourceMetadataHandler,
+  resolveHttpSecurityConfig,
+  upstageApiKeyMiddleware,
+} from './httpAuth.js';
 
 // Load environment variables
 dotenv.config();
 
 const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = '127.0.0.1';
 
-export async function startHttpServer(port: number = DEFAULT_PORT): Promise<void> {
+export interface HttpServerOptions {
+  /** Interface to bind to */
+  host?: string;
+  /** Config file with the http auth and CORS settings */
+  configPath?: string;
+}
+
+export async function startHttpServer(port: number = DEFAULT_PORT, options: HttpServerOptions = {}): Promise<void> {
+  const host = options.host || DEFAULT_HOST;
+  const security = resolveHttpSecurityConfig(loadConfigFile(options.configPath).http);
+  const authEnabled = isAuthEnabled(security);
+  const baseUrl = `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+  
+  if (!authEnabled && !['127.0.0.1', 'localhost', '::1'].includes(host)) {
+    console.error(`Warning: listening on ${host} without authentication; configure MCP_AUTH_TOKENS or http.auth`);
+  }
+  
   const app = express();
   
+  // Active transports keyed by Mcp-Session-Id, and the client each session belongs to
+  const transports: Record<string, StreamableHTTPServerTransport> = {};
+  const sessionClients: Record<string, string> = {};
+  
   // Middleware
   app.use(express.json({ limit: '50mb' }));
   app.use(express.raw({ type: 'application/octet-stream', limit: '50mb' }));
   
   // CORS middleware for MCP
-  app.use((_req, res, next) => {
-    res.header('Access-Control-Allow-Origin', _req.headers.origin || '*');
-    res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Accept, Mcp-Session-Id');
-    res.header('Access-Control-Expose-Headers', 'Mcp-Session-Id');
-    
-    if (_req.method === 'OPTIONS') {
-      res.sendStatus(200);
-      return;
-    }
-    
-    next();
-  });
+  app.use(corsMiddleware(security.allowedOrigins));
+  
+  // Bearer token auth, then per-client Upstage API keys
+  const mcpAuth: express.RequestHandler[] = authEnabled ? [bearerAuthMiddleware(security, baseUrl)] : [];
+  mcpAuth.push(upstageApiKeyMiddleware());
+  
+  app.get(PROTECTED_RESOURCE_METADATA_PATH, protectedResourceMetadataHandler(security, baseUrl));
   
   // Health check endpoint
   app.get('/health', (_req, res) => {
-    res.json({ status: 'ok', transport: 'http', version: '0.2.0' });
+    res.json({
+      status: 'ok',
+      transport: 'http',
+      version: '0.2.0',
+      sessions: Object.keys(transports).length,
+      auth: authEnabled,
+      endpoints: getApiEndpoints(),
+    });
   });
   
-  // MCP endpoint for Streamable HTTP
-  app.post('/mcp', async (req, res) => {
+  // A session can only be used by the client that created it
+  const ownsSession = (req: express.Request, sessionId: string) =>
+    sessionClients[sessionId] === (req.auth?.clientId || 'anonymous');
+  
+  const sendForbidden = (res: express.Response) => {
+    res.status(403).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: 'Forbidden: session belongs to another client' },
+      id: null,
+    });
+  };
+  
+  // MCP endpoint for Streamable HTTP (client-to-server messages)
+  app.post('/mcp', ...mcpAuth, async (req, res) => {
     try {
-      // Validate Accept header
-      const acceptHeader = req.headers.accept;
-      if (!acceptHeader || (!acceptHeader.includes('application/json') && !acceptHeader.includes('text/event-stream'))) {
-        res.status(400).json({
-          error: 'Invalid Accept header. Must include application/json or text/event-stream'
-        });
-        return;
-      }
-      
-      // Extract session ID if present
-      const sessionId = req.headers['mcp-session-id'] as string;
-      
-      // Set response headers
-      res.setHeader('Content-Type', 'application/json');
-      if (sessionId) {
-        res.setHeader('Mcp-Session-Id', sessionId);
-      }
-      
-      // Process JSON-RPC request
-      const jsonRpcRequest = req.body;
-      
-      if (!jsonRpcRequest || typeof jsonRpcRequest !== 'object') {
-        res.status(400).json({
-          jsonrpc: '2.0',
-          error: { code: -32600, message: 'Invalid Request' },
-          id: null
-        });
-        return;
-      }
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      let transport: StreamableHTTPServerTransport;
       
-      // Handle the request through MCP server
-      // Note: This is a simplified implementation
-      // In a full implementation, you'd need to properly integrate with the MCP server's request handling
-      if (jsonRpcRequest.method === 'tools/list') {
-        const tools = [
-          {
-            name: 'parse_document',
-            description: 'Parse a document using Upstage AI\'s document digitization API.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                file_path: { type: 'string' },
-                output_formats: { type: 'array', items: { type: 'string' } }
-              },
-              required: ['file_path']
-            }
+      if (sessionId && transports[sessionId]) {
+        if (!ownsSession(req, sessionId)) {
+          sendForbidden(res);
+          return;
+        }
+        
+        // Reuse the transport of an existing session
+        transport = transports[sessionId];
+      } else if (!sessionId && isInitializeRequest(req.body)) {
+        // New session: each one gets its own MCP server instance
+        const clientId = req.auth?.clientId || 'anonymous';
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (newSessionId) => {
+            transports[newSessionId] = transport;
+            sessionClients[newSessionId] = clientId;
           },
-          {
-            name: 'extract_information',
-            description: 'Extract structured information from documents using Upstage Universal Information Extraction.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                file_path: { type: 'string' },
-                schema_path: { type: 'string' },
-                schema_json: { type: 'string' },
-                auto_generate_schema: { type: 'boolean', default: true }
-              },
-              required: ['file_path']
-            }
+        });
+        
+        transport.onclose = () => {
+          if (transport.sessionId) {
+            delete transports[transport.sessionId];
+            delete sessionClients[transport.sessionId];
           }
-        ];
+        };
         
-        res.json({
+        const server = await createServer();
+        await server.connect(transport);
+      } else {
+        res.status(400).json({
           jsonrpc: '2.0',
-          result: { tools },
-          id: jsonRpcRequest.id
+          error: {
+            code: -32000,
+            message: sessionId
+              ? `Bad Request: Unknown session ID: ${sessionId}`
+              : 'Bad Request: No valid session ID provided',
+          },
+          id: null,
         });
         return;
       }
       
-      // For other methods, return method not found
-      res.json({
-        jsonrpc: '2.0',
-        error: { code: -32601, message: 'Method not found' },
-        id: jsonRpcRequest.id
-      });
-      
+      await transport.handleRequest(req, res, req.body);
     } catch (error: any) {
       console.error('Error processing MCP request:', error);
-      res.status(500).json({
-        jsonrpc: '2.0',
-        error: { code: -32603, message: 'Internal error', data: error.message },
-        id: req.body?.id || null
-      });
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: '2.0',
+          error: { code: -32603, message: 'Internal error', data: error.message },
+          id: req.body?.id || null
+        });
+      }
     }
   });
   
-  // Server-Sent Events endpoint (GET /mcp for streaming)
-  app.get('/mcp', (req, res) => {
-    // Validate Accept header for SSE
-    const acceptHeader = req.headers.accept;
-    if (!acceptHeader || !acceptHeader.includes('text/event-stream')) {
-      return res.status(400).json({
-        error: 'Invalid Accept header. Must include text/event-stream for SSE'
+  // Server-to-client SSE stream (GET) and session termination (DELETE)
+  const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (!sessionId || !transports[sessionId]) {
+      res.status(400).json({
+        jsonrpc: '2.0',
+        error: { code: -32000, message: 'Bad Request: Invalid or missing session ID' },
+        id: null,
       });
+      return;
     }
     
-    // Set SSE headers
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    
-    // Send initial connection event
-    res.write('event: connected\n');
-    res.write('data: {"type":"connection","status":"connected"}\n\n');
-    
-    // Handle client disconnect
-    req.on('close', () => {
-      res.end();
-    });
+    if (!ownsSession(req, sessionId)) {
+      sendForbidden(res);
+      return;
+    }
     
-    // Keep connection alive
-    return;
-  });
+    await transports[sessionId].handleRequest(req, res);
+  };
+  
+  app.get('/mcp', ...mcpAuth, handleSessionRequest);
+  app.delete('/mcp', ...mcpAuth, handleSessionRequest);
   
   // Start the server
-  app.listen(port, '127.0.0.1', () => {
+  const httpServer = app.listen(port, host, () => {
     console.log(`\nMCP Server with HTTP Streamable transport running at:`);
-    console.log(`🌐 HTTP: http://127.0.0.1:${port}/mcp`);
-    console.log(`🏥 Health: http://127.0.0.1:${port}/health`);
+    console.log(`🌐 HTTP: ${baseUrl}/mcp`);
+    console.log(`🏥 Health: ${baseUrl}/health`);
+    console.log(`🔒 Auth: ${authEnabled ? 'bearer token required' : 'disabled'}`);
     console.log(`\nAdd to Claude Desktop config:`);
     console.log(`{`);
     console.log(`  "mcpServers": {`);
@@ -170,6 +184,20 @@ export async function startHttpServer(port: number = DEFAULT_PORT): Promise<void
     console.log(`  }`);
     console.log(`}`);
   });
+  
+  // Close all sessions on shutdown
+  process.on('SIGINT', async () => {
+    for (const sessionId of Object.keys(transports)) {
+      try {
+        await transports[sessionId].close();
+      } catch (error) {
+        console.error(`Error closing session ${sessionId}:`, error);
+      }
+      delete transports[sessionId];
+    }
+    httpServer.close();
+    process.exit(0);
+  });
 }
 
-export default startHttpServer;
\ No newline at end of file
+export default startHttpServer;
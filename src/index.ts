@@ -2,12 +2,19 @@
 
 import main from './server.js';
 import startHttpServer from './httpServer.js';
+import { loadApiConfig } from './utils/index.js';
 
 // Parse command line arguments
 const args = process.argv.slice(2);
 const httpMode = args.includes('--http');
 const portIndex = args.indexOf('--port');
 const port = portIndex !== -1 && args[portIndex + 1] ? parseInt(args[portIndex + 1]) : 3000;
+const baseUrlIndex = args.indexOf('--base-url');
+const baseUrl = baseUrlIndex !== -1 ? args[baseUrlIndex + 1] : undefined;
+const configIndex = args.indexOf('--config');
+const configPath = configIndex !== -1 ? args[configIndex + 1] : undefined;
+const hostIndex = args.indexOf('--host');
+const host = hostIndex !== -1 ? args[hostIndex + 1] : undefined;
 
 // Handle uncaught errors
 process.on('uncaughtException', (error) => {
@@ -31,15 +38,27 @@ Usage:
 Options:
   --http              Start HTTP server (default: stdio)
   --port <number>     HTTP server port (default: 3000)
+  --host <address>    HTTP server bind address (default: 127.0.0.1)
+  --base-url <url>    Upstage API base URL (default: https://api.upstage.ai/v1)
+  --config <path>     Config file with baseUrl, endpoint overrides and HTTP auth/CORS settings
+                      (default: ~/.mcp-upstage/config.json)
   --help              Show this help message
 
 Examples:
   mcp-upstage-server                    # Start with stdio transport
   mcp-upstage-server --http             # Start HTTP server on port 3000
   mcp-upstage-server --http --port 8080 # Start HTTP server on port 8080
+  mcp-upstage-server --base-url https://upstage.internal/v1
 
 Environment Variables:
-  UPSTAGE_API_KEY     Required Upstage API key
+  UPSTAGE_API_KEY     Upstage API key (required for stdio; in HTTP mode clients
+                      may send their own via the X-Upstage-Api-Key header)
+  UPSTAGE_BASE_URL    Upstage API base URL
+  UPSTAGE_CONFIG      Config file path
+  UPSTAGE_ENDPOINT_<NAME>
+                      Override a single endpoint, e.g. UPSTAGE_ENDPOINT_DOCUMENT_DIGITIZATION
+  MCP_AUTH_TOKENS     Comma-separated bearer tokens accepted on /mcp (HTTP mode)
+  MCP_CORS_ORIGINS    Comma-separated allowed browser origins (HTTP mode)
 `);
 }
 
@@ -51,9 +70,15 @@ if (args.includes('--help') || args.includes('-h')) {
 
 // Start appropriate server
 async function startServer() {
+  // Resolve Upstage endpoints before any tool runs
+  const endpoints = loadApiConfig({ baseUrl, configPath });
+  if (process.env.NODE_ENV === 'development' || process.env.DEBUG) {
+    console.error('Upstage API endpoints:', JSON.stringify(endpoints, null, 2));
+  }
+  
   if (httpMode) {
     console.error('🚀 Starting MCP Server with HTTP Streamable transport...');
-    await startHttpServer(port);
+    await startHttpServer(port, { host, configPath });
   } else {
     // For stdio transport, minimize stderr output to avoid JSON parsing issues
     if (process.env.NODE_ENV === 'development' || process.env.DEBUG) {
@@ -0,0 +1,331 @@
+/**
+ * Local stand-in for the Upstage API with scriptable responses
+ *
+ * Serves every endpoint in API_ENDPOINT_PATHS under /v1. Each endpoint returns a canned
+ * success response unless responses have been queued with enqueue().
+ *
+ * Run standalone with: tsx src/mock/mockUpstageServer.ts [port]
+ */
+
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { API_ENDPOINT_PATHS } from '../utils/constants';
+import { ApiEndpointName } from '../utils/config';
+
+export interface MockResponse {
+  status?: number;
+  body?: any;
+  headers?: Record<string, string>;
+  /** Wait this long before responding */
+  delayMs?: number;
+}
+
+export interface RecordedRequest {
+  endpoint: ApiEndpointName | 'BATCH_DOWNLOAD';
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Parsed JSON body, or the non-file fields of a multipart body */
+  body: any;
+}
+
+/**
+ * Factories for common failure modes
+ */
+export const mockResponses = {
+  success: (body: any): MockResponse => ({ status: 200, body }),
+  completion: (content: string): MockResponse => ({ status: 200, body: chatCompletion(content) }),
+  rateLimit: (retryAfterSeconds?: number): MockResponse => ({
+    status: 429,
+    body: { message: 'Too many requests' },
+    headers: retryAfterSeconds !== undefined ? { 'Retry-After': String(retryAfterSeconds) } : undefined,
+  }),
+  serverError: (status: number = 500): MockResponse => ({
+    status,
+    body: { message: 'Internal server error' },
+  }),
+  clientError: (status: number, message: string): MockResponse => ({
+    status,
+    body: { message },
+  }),
+  malformedChoices: (): MockResponse => ({ status: 200, body: { choices: [] } }),
+  slow: (delayMs: number, body?: any): MockResponse => ({ status: 200, body, delayMs }),
+};
+
+const BASE_PATH = '/v1';
+
+/**
+ * Pull the plain form fields out of a multipart body, skipping file parts
+ */
+function parseMultipartFields(body: Buffer, contentType: string): Record<string, string> {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/);
+  if (!boundary) {
+    return {};
+  }
+
+  const fields: Record<string, string> = {};
+  for (const part of body.toString('latin1').split(`--${boundary[1] || boundary[2]}`)) {
+    const [rawHeaders, ...rest] = part.split('\r\n\r\n');
+    const name = rawHeaders?.match(/name="([^"]+)"/);
+    if (!name || /filename="/.test(rawHeaders)) {
+      continue;
+    }
+    fields[name[1]] = rest.join('\r\n\r\n').replace(/\r\n$/, '');
+  }
+  return fields;
+}
+
+function chatCompletion(content: string): any {
+  return {
+    id: 'mock-completion',
+    object: 'chat.completion',
+    model: 'mock',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  };
+}
+
+/**
+ * Build a value for every property in a JSON schema
+ */
+function sampleFromSchema(schema: any): any {
+  switch (schema?.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromSchema(value)])
+      );
+    case 'array':
+      return [sampleFromSchema(schema.items)];
+    case 'number':
+    case 'integer':
+      return 42;
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return 'mock value';
+  }
+}
+
+export class MockUpstageServer {
+  readonly requests: RecordedRequest[] = [];
+  private readonly queues = new Map<string, MockResponse[]>();
+  private readonly jobs = new Map<string, { pages: number }>();
+  private server?: Server;
+  private nextJobId = 1;
+
+  /** Base URL to use as UPSTAGE_BASE_URL, e.g. http://127.0.0.1:4010/v1 */
+  get baseUrl(): string {
+    if (!this.server) {
+      throw new Error('Mock Upstage server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}${BASE_PATH}`;
+  }
+
+  /**
+   * Queue responses for an endpoint; they are served in order before falling back to the default
+   */
+  enqueue(endpoint: ApiEndpointName, ...responses: MockResponse[]): void {
+    const queue = this.queues.get(endpoint) || [];
+    queue.push(...responses);
+    this.queues.set(endpoint, queue);
+  }
+
+  /**
+   * Recorded requests for a single endpoint
+   */
+  requestsFor(endpoint: RecordedRequest['endpoint']): RecordedRequest[] {
+    return this.requests.filter((request) => request.endpoint === endpoint);
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.queues.clear();
+    this.jobs.clear();
+  }
+
+  async start(port: number = 0): Promise<void> {
+    const app = express();
+    app.use(express.json({ limit: '100mb' }));
+    app.use(express.raw({ type: 'multipart/form-data', limit: '100mb' }));
+
+    // Register the longest paths first so /document-digitization/async wins over /document-digitization
+    const endpoints = (Object.keys(API_ENDPOINT_PATHS) as ApiEndpointName[]).sort(
+      (a, b) => API_ENDPOINT_PATHS[b].length - API_ENDPOINT_PATHS[a].length
+    );
+
+    for (const endpoint of endpoints) {
+      const routePath = BASE_PATH + API_ENDPOINT_PATHS[endpoint];
+
+      if (endpoint === 'DOCUMENT_DIGITIZATION_REQUESTS') {
+        app.get(`${routePath}/:id`, (req, res) => {
+          this.record(endpoint, req);
+          void this.respond(endpoint, res, () => this.jobStatus(req.params.id));
+        });
+        continue;
+      }
+
+      app.post(routePath, (req, res) => {
+        this.record(endpoint, req);
+        void this.respond(endpoint, res, () => this.defaultResponse(endpoint, req.body));
+      });
+    }
+
+    app.get('/mock/batches/:jobId/:batchId', (req, res) => {
+      this.record('BATCH_DOWNLOAD', req);
+      res.json(this.batchResult(Number(req.params.batchId)));
+    });
+
+    await new Promise<void>((resolve) => {
+      this.server = app.listen(port, '127.0.0.1', () => resolve());
+    });
+  }
+
+  async close(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => {
+      this.server!.close((error) => (error ? reject(error) : resolve()));
+    });
+    this.server = undefined;
+  }
+
+  private record(endpoint: RecordedRequest['endpoint'], req: express.Request): void {
+    const contentType = req.headers['content-type'] || '';
+    this.requests.push({
+      endpoint,
+      method: req.method,
+      path: req.path,
+      headers: req.headers,
+      body: Buffer.isBuffer(req.body) ? parseMultipartFields(req.body, contentType) : req.body,
+    });
+  }
+
+  private async respond(
+    endpoint: ApiEndpointName,
+    res: express.Response,
+    fallback: () => any
+  ): Promise<void> {
+    const scripted = this.queues.get(endpoint)?.shift();
+    const response: MockResponse = scripted || { status: 200 };
+
+    if (response.delayMs) {
+      // Stop waiting as soon as the client gives up
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, response.delayMs);
+        res.on('close', () => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+    if (res.destroyed) {
+      return;
+    }
+
+    for (const [name, value] of Object.entries(response.headers || {})) {
+      res.setHeader(name, value);
+    }
+    res.status(response.status ?? 200).json(response.body !== undefined ? response.body : fallback());
+  }
+
+  private defaultResponse(endpoint: ApiEndpointName, body: any): any {
+    switch (endpoint) {
+      case 'DOCUMENT_DIGITIZATION':
+        return this.batchResult(0);
+      case 'DOCUMENT_DIGITIZATION_ASYNC': {
+        const jobId = `mock-job-${this.nextJobId++}`;
+        this.jobs.set(jobId, { pages: 2 });
+        return { request_id: jobId };
+      }
+      case 'INFORMATION_EXTRACTION':
+        return chatCompletion(JSON.stringify(sampleFromSchema(body?.response_format?.json_schema?.schema)));
+      case 'SCHEMA_GENERATION':
+        return chatCompletion(
+          JSON.stringify({
+            type: 'json_schema',
+            json_schema: {
+              name: 'document_schema',
+              schema: {
+                type: 'object',
+                properties: {
+                  company_name: { type: 'string', description: 'Company name' },
+                  total_amount: { type: 'number', description: 'Total amount' },
+                },
+              },
+            },
+          })
+        );
+      case 'DOCUMENT_CLASSIFICATION': {
+        const categories = body?.response_format?.json_schema?.schema?.oneOf || [];
+        return chatCompletion(categories[0]?.const || 'others');
+      }
+      default:
+        return {};
+    }
+  }
+
+  private jobStatus(jobId: string): any {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return { id: jobId, status: 'failed', failure_message: 'Unknown request id' };
+    }
+    return {
+      id: jobId,
+      status: 'completed',
+      total_pages: job.pages,
+      completed_pages: job.pages,
+      batches: Array.from({ length: job.pages }, (_, index) => ({
+        id: index,
+        status: 'completed',
+        start_page: index + 1,
+        end_page: index + 1,
+        download_url: `${this.baseUrl.replace(BASE_PATH, '')}/mock/batches/${jobId}/${index}`,
+      })),
+    };
+  }
+
+  private batchResult(batchId: number): any {
+    const page = 1;
+    return {
+      api: '2.0',
+      model: 'document-parse-mock',
+      content: {
+        html: `<h1 id='0'>Mock Document ${batchId + 1}</h1><p id='1'>Mock paragraph</p>`,
+        markdown: `# Mock Document ${batchId + 1}\n\nMock paragraph`,
+        text: `Mock Document ${batchId + 1}\nMock paragraph`,
+      },
+      elements: [
+        {
+          id: 0,
+          category: 'heading1',
+          page,
+          content: {
+            html: `<h1 id='0'>Mock Document ${batchId + 1}</h1>`,
+            markdown: `# Mock Document ${batchId + 1}`,
+            text: `Mock Document ${batchId + 1}`,
+          },
+        },
+        {
+          id: 1,
+          category: 'paragraph',
+          page,
+          content: { html: "<p id='1'>Mock paragraph</p>", markdown: 'Mock paragraph', text: 'Mock paragraph' },
+        },
+      ],
+      usage: { pages: 1 },
+    };
+  }
+}
+
+if (require.main === module) {
+  const mock = new MockUpstageServer();
+  mock.start(Number(process.argv[2]) || 4010).then(() => {
+    console.log(`Mock Upstage API running at ${mock.baseUrl}`);
+  });
+}
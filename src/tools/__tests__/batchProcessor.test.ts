@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockUpstageServer, mockResponses } from '../../mock/mockUpstageServer';
+import { loadApiConfig, readJsonFile } from '../../utils';
+import { batchClassify, resolveBatchFiles } from '../batchProcessor';
+
+describe('batch processing', () => {
+  const mock = new MockUpstageServer();
+  let homeDir: string;
+  let docsDir: string;
+
+  beforeAll(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-upstage-test-'));
+    jest.spyOn(os, 'homedir').mockReturnValue(homeDir);
+    process.env.UPSTAGE_CACHE_DISABLED = 'true';
+
+    docsDir = path.join(homeDir, 'docs');
+    await fs.mkdir(path.join(docsDir, 'nested'), { recursive: true });
+    for (const name of ['a.pdf', 'b.png', 'notes.txt', 'nested/c.pdf']) {
+      await fs.writeFile(path.join(docsDir, name), 'mock document');
+    }
+
+    await mock.start();
+    loadApiConfig({ baseUrl: mock.baseUrl });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+    jest.restoreAllMocks();
+    delete process.env.UPSTAGE_CACHE_DISABLED;
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  describe('resolveBatchFiles', () => {
+    const extensions = ['.pdf', '.png'];
+
+    it('lists a directory and skips unsupported files', async () => {
+      const { files, skipped } = await resolveBatchFiles({ directory: docsDir }, extensions);
+
+      expect(files).toEqual([path.join(docsDir, 'a.pdf'), path.join(docsDir, 'b.png')]);
+      expect(skipped).toEqual([expect.objectContaining({ file: path.join(docsDir, 'notes.txt'), status: 'skipped' })]);
+    });
+
+    it('includes subdirectories when recursive', async () => {
+      const { files } = await resolveBatchFiles({ directory: docsDir, recursive: true }, extensions);
+
+      expect(files).toContain(path.join(docsDir, 'nested', 'c.pdf'));
+    });
+
+    it('combines a glob with explicit paths without duplicates', async () => {
+      const { files } = await resolveBatchFiles(
+        { pattern: `${docsDir}/**/*.pdf`, filePaths: [path.join(docsDir, 'a.pdf'), path.join(docsDir, 'b.png')] },
+        extensions
+      );
+
+      expect(files).toHaveLength(3);
+    });
+
+    it('rejects a batch without any source', async () => {
+      await expect(resolveBatchFiles({}, extensions)).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+  });
+
+  it('continues past failed files and saves a manifest next to the results', async () => {
+    mock.enqueue('DOCUMENT_CLASSIFICATION', mockResponses.clientError(400, 'Unreadable document'));
+    const progress: number[] = [];
+
+    const result = await batchClassify({
+      directory: docsDir,
+      filePaths: [path.join(docsDir, 'missing.pdf')],
+      concurrency: 1,
+      apiKey: 'test-key',
+      onProgress: async (update) => {
+        progress.push(update.progress);
+      },
+    });
+
+    expect(result).toMatchObject({ total: 4, succeeded: 1, failed: 2, skipped: 1 });
+    const failures = result.items.filter((item) => item.status === 'failed');
+    expect(failures.map((item) => item.error?.code).sort()).toEqual(['FILE_NOT_FOUND', 'UPSTAGE_BAD_REQUEST']);
+
+    const succeeded = result.items.find((item) => item.status === 'succeeded')!;
+    expect(succeeded.result).toEqual({ classification: 'invoice' });
+    expect(path.dirname(result.manifest_saved_to!)).toBe(path.dirname(succeeded.output_path!));
+    expect(await readJsonFile(result.manifest_saved_to!)).toMatchObject({ succeeded: 1, failed: 2 });
+
+    expect(progress[progress.length - 1]).toBe(3);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+  });
+
+  it('saves a separate manifest for each of several concurrent batches', async () => {
+    const results = await Promise.all(
+      [1, 2, 3].map(() => batchClassify({ filePaths: [path.join(docsDir, 'a.pdf')], apiKey: 'test-key' }))
+    );
+
+    expect(new Set(results.map((result) => result.manifest_saved_to)).size).toBe(3);
+  });
+
+  it('reports the skipped files but saves no manifest for a cancelled batch', async () => {
+    const listManifests = async () =>
+      (await fs.readdir(path.join(homeDir, '.mcp-upstage', 'outputs'), { recursive: true })).filter((name) =>
+        name.endsWith('_manifest.json')
+      );
+    const before = await listManifests();
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await batchClassify({
+      filePaths: [path.join(docsDir, 'a.pdf')],
+      apiKey: 'test-key',
+      signal: controller.signal,
+    });
+
+    expect(result).toMatchObject({ total: 1, succeeded: 0, skipped: 1 });
+    expect(result.items[0]).toMatchObject({ status: 'skipped', reason: 'Batch cancelled' });
+    expect(result.manifest_saved_to).toBeUndefined();
+    expect(await listManifests()).toEqual(before);
+  });
+});
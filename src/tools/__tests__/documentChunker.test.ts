@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { saveJsonToFile, getOutputDirectory } from '../../utils';
+import { chunkDocument } from '../documentChunker';
+
+describe('chunkDocument', () => {
+  let homeDir: string;
+  let savedPath: string;
+
+  beforeAll(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-upstage-test-'));
+    jest.spyOn(os, 'homedir').mockReturnValue(homeDir);
+
+    savedPath = path.join(getOutputDirectory('document_parsing'), 'report_2026-01-01T00-00-00_upstage.json');
+    await fs.mkdir(path.dirname(savedPath), { recursive: true });
+    await saveJsonToFile(
+      {
+        content: {},
+        elements: [
+          { id: 0, category: 'heading1', page: 1, content: { markdown: '# Report', text: 'Report' } },
+          { id: 1, category: 'paragraph', page: 1, content: { markdown: 'First section.', text: 'First section.' } },
+          { id: 2, category: 'heading1', page: 2, content: { markdown: '# Outlook', text: 'Outlook' } },
+          { id: 3, category: 'paragraph', page: 2, content: { markdown: 'Second section.', text: 'Second section.' } },
+        ],
+      },
+      savedPath
+    );
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  it('writes the chunks as JSONL next to the parse result', async () => {
+    const result = await chunkDocument({ parseResult: savedPath, getApiKey: () => 'test-key' });
+
+    expect(result.chunks_saved_to).toBe(savedPath.replace(/\.json$/, '_chunks.jsonl'));
+    expect(result.chunk_count).toBe(2);
+    expect(result.chunks[1]).toEqual({
+      index: 1,
+      pages: [2],
+      element_ids: [2, 3],
+      heading_path: ['Outlook'],
+      tokens: 7,
+      chars: 26,
+    });
+
+    const lines = (await fs.readFile(result.chunks_saved_to, 'utf-8')).trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toEqual({
+      id: 'report#0',
+      content: '# Report\n\nFirst section.',
+      metadata: {
+        source: savedPath,
+        parse_result: savedPath,
+        index: 0,
+        pages: [1],
+        element_ids: [0, 1],
+        heading_path: ['Report'],
+        tokens: 6,
+        chars: 24,
+      },
+    });
+  });
+
+  it('rejects an overlap as large as the chunk size', async () => {
+    await expect(
+      chunkDocument({ parseResult: savedPath, getApiKey: () => 'test-key', maxSize: 100, overlap: 100 })
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+});
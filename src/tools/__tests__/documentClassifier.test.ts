@@ -0,0 +1,85 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockUpstageServer, mockResponses } from '../../mock/mockUpstageServer';
+import { loadApiConfig } from '../../utils';
+import { classifyDocument } from '../documentClassifier';
+
+const CATEGORIES = [
+  { const: 'medical', description: 'Medical records' },
+  { const: 'others', description: 'Other' },
+];
+
+describe('classifyDocument', () => {
+  const mock = new MockUpstageServer();
+  let homeDir: string;
+  let filePath: string;
+
+  beforeAll(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-upstage-test-'));
+    jest.spyOn(os, 'homedir').mockReturnValue(homeDir);
+    process.env.UPSTAGE_CACHE_DISABLED = 'true';
+    filePath = path.join(homeDir, 'document.png');
+    await fs.writeFile(filePath, Buffer.from('mock image'));
+    await mock.start();
+    loadApiConfig({ baseUrl: mock.baseUrl });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+    jest.restoreAllMocks();
+    delete process.env.UPSTAGE_CACHE_DISABLED;
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  const sentCategories = () =>
+    mock.requestsFor('DOCUMENT_CLASSIFICATION')[0].body.response_format.json_schema.schema.oneOf;
+
+  it('uses the default categories without a custom schema', async () => {
+    const result = await classifyDocument({ filePath, apiKey: 'test-key' });
+
+    expect(result.classification).toBe('invoice');
+    expect(result.metadata.schema_used).toBe('default');
+    expect(sentCategories().map((category: any) => category.const)).toContain('bank_statement');
+  });
+
+  it.each([
+    ['a bare category array', CATEGORIES],
+    ['a full response_format', { type: 'json_schema', json_schema: { name: 'x', schema: { oneOf: CATEGORIES } } }],
+    ['a json_schema object', { schema: { oneOf: CATEGORIES } }],
+    ['a oneOf object', { oneOf: CATEGORIES }],
+  ])('normalizes %s into the classification schema', async (_label, schema) => {
+    const result = await classifyDocument({ filePath, apiKey: 'test-key', schemaJson: JSON.stringify(schema) });
+
+    expect(sentCategories()).toEqual(CATEGORIES);
+    expect(result.classification).toBe('medical');
+    expect(result.metadata.schema_used).toBe('custom');
+  });
+
+  it('rejects categories without a description', async () => {
+    await expect(
+      classifyDocument({ filePath, apiKey: 'test-key', schemaJson: JSON.stringify([{ const: 'a' }]) })
+    ).rejects.toThrow('Each category must have "const" and "description" fields');
+    expect(mock.requestsFor('DOCUMENT_CLASSIFICATION')).toHaveLength(0);
+  });
+
+  it('rejects a response without choices', async () => {
+    mock.enqueue('DOCUMENT_CLASSIFICATION', mockResponses.malformedChoices());
+
+    await expect(classifyDocument({ filePath, apiKey: 'test-key' })).rejects.toThrow(
+      'Invalid response from document classification API'
+    );
+  });
+
+  it('saves the result under the outputs directory', async () => {
+    const result = await classifyDocument({ filePath, apiKey: 'test-key' });
+
+    expect(result.metadata.result_saved_to.startsWith(path.join(homeDir, '.mcp-upstage', 'outputs'))).toBe(true);
+    const saved = JSON.parse(await fs.readFile(result.metadata.result_saved_to, 'utf-8'));
+    expect(saved.classification).toBe('invoice');
+  });
+});
@@ -0,0 +1,129 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockUpstageServer } from '../../mock/mockUpstageServer';
+import { loadApiConfig, readJsonFile, saveNamedSchema, createExtractionSchema } from '../../utils';
+import { processDocument } from '../documentPipeline';
+import { generateSchema } from '../schemaGenerator';
+
+describe('processDocument', () => {
+  const mock = new MockUpstageServer();
+  let homeDir: string;
+  let filePath: string;
+
+  beforeAll(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-upstage-test-'));
+    jest.spyOn(os, 'homedir').mockReturnValue(homeDir);
+    process.env.UPSTAGE_CACHE_DISABLED = 'true';
+
+    filePath = path.join(homeDir, 'document.pdf');
+    await fs.writeFile(filePath, 'mock document');
+
+    await mock.start();
+    loadApiConfig({ baseUrl: mock.baseUrl });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+    jest.restoreAllMocks();
+    delete process.env.UPSTAGE_CACHE_DISABLED;
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  it('extracts with the built-in schema for the predicted category', async () => {
+    const result = await processDocument({ filePath, apiKey: 'test-key' });
+
+    expect(result).toMatchObject({
+      classification: 'invoice',
+      schema: { matched: 'invoice', source: 'builtin:invoice' },
+      validation: { valid: true },
+    });
+    expect(result.extracted_data).toHaveProperty('invoice_number');
+
+    const [extraction] = mock.requestsFor('INFORMATION_EXTRACTION');
+    expect(Object.keys(extraction.body.response_format.json_schema.schema.properties)).toContain('invoice_number');
+    expect(mock.requestsFor('SCHEMA_GENERATION')).toHaveLength(0);
+    expect(await readJsonFile(result.metadata.result_saved_to)).toEqual(result);
+  });
+
+  it('prefers schema_map entries and honours none', async () => {
+    const schemaPath = path.join(homeDir, 'cv_schema.json');
+    await fs.writeFile(
+      schemaPath,
+      JSON.stringify({
+        name: 'cv',
+        schema: { type: 'object', properties: { candidate_name: { type: 'string', description: 'Name' } } },
+      })
+    );
+    const categories = JSON.stringify([{ const: 'cv', description: 'Resume' }, { const: 'others', description: 'Other' }]);
+
+    const mapped = await processDocument({
+      filePath,
+      apiKey: 'test-key',
+      classificationSchemaJson: categories,
+      schemaMap: { cv: schemaPath },
+    });
+    expect(mapped).toMatchObject({
+      classification: 'cv',
+      extracted_data: { candidate_name: expect.any(String) },
+      schema: { matched: 'cv', source: schemaPath },
+    });
+
+    const skipped = await processDocument({
+      filePath,
+      apiKey: 'test-key',
+      classificationSchemaJson: categories,
+      schemaMap: { '*': 'none' },
+    });
+    expect(skipped).toMatchObject({ extracted_data: null, schema: { matched: '*', source: 'none' } });
+    expect(mock.requestsFor('INFORMATION_EXTRACTION')).toHaveLength(1);
+  });
+
+  it("lets a schema_map '*' entry override the built-in schema for a category", async () => {
+    const result = await processDocument({ filePath, apiKey: 'test-key', schemaMap: { '*': 'none' } });
+
+    expect(result).toMatchObject({
+      classification: 'invoice',
+      extracted_data: null,
+      schema: { matched: '*', source: 'none' },
+    });
+    expect(mock.requestsFor('INFORMATION_EXTRACTION')).toHaveLength(0);
+  });
+
+  it('uses a schema file written by generate_schema', async () => {
+    const generated = await generateSchema({ filePath, apiKey: 'test-key' });
+    const schemaPath = generated.metadata.schema_saved_to;
+
+    const result = await processDocument({ filePath, apiKey: 'test-key', schemaMap: { invoice: schemaPath } });
+
+    expect(result).toMatchObject({ schema: { matched: 'invoice', source: schemaPath } });
+    expect(Object.keys(result.extracted_data!)).toEqual(
+      Object.keys(generated.schema.json_schema.schema.properties)
+    );
+  });
+
+  it('uses saved schemas by name', async () => {
+    await saveNamedSchema('supplier_invoice', createExtractionSchema({ vat_id: { type: 'string' } }));
+
+    const result = await processDocument({
+      filePath,
+      apiKey: 'test-key',
+      schemaMap: { invoice: 'supplier_invoice' },
+    });
+
+    expect(result).toMatchObject({
+      extracted_data: { vat_id: expect.any(String) },
+      schema: { source: 'library:supplier_invoice@1' },
+    });
+  });
+
+  it('rejects an unknown built-in schema', async () => {
+    await expect(
+      processDocument({ filePath, apiKey: 'test-key', schemaMap: { invoice: 'builtin:passport' } })
+    ).rejects.toMatchObject({ code: 'INVALID_SCHEMA' });
+  });
+});
@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { saveJsonToFile, getOutputDirectory, outputPathToUri } from '../../utils';
+import { queryParsedDocument } from '../parsedDocumentQuery';
+
+function element(id: number, category: string, page: number, html: string, text: string) {
+  return { id, category, page, content: { html, markdown: category === 'heading1' ? `# ${text}` : text, text } };
+}
+
+describe('queryParsedDocument', () => {
+  let homeDir: string;
+  let savedPath: string;
+
+  beforeAll(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-upstage-test-'));
+    jest.spyOn(os, 'homedir').mockReturnValue(homeDir);
+
+    savedPath = path.join(getOutputDirectory('document_parsing'), 'report_2026-01-01T00-00-00_upstage.json');
+    await fs.mkdir(path.dirname(savedPath), { recursive: true });
+    await saveJsonToFile(
+      {
+        content: { html: '...' },
+        elements: [
+          element(0, 'heading1', 1, "<h1 id='0'>Annual Report</h1>", 'Annual Report'),
+          element(1, 'paragraph', 1, "<p id='1'>Revenue grew in 2025.</p>", 'Revenue grew in 2025.'),
+          element(2, 'heading1', 2, "<h1 id='2'>Risks</h1>", 'Risks'),
+          element(3, 'paragraph', 2, "<p id='3'>Currency risk.</p>", 'Currency risk.'),
+          { id: 4, category: 'table', page: 3, content: { html: '<table><tr><td>Revenue</td><td>10</td></tr></table>' } },
+        ],
+      },
+      savedPath
+    );
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  it('filters by category, page range and text', async () => {
+    const headings = await queryParsedDocument({ parseResult: savedPath, categories: ['heading'] });
+    expect(headings.elements.map((match) => match.content)).toEqual(['# Annual Report', '# Risks']);
+    expect(headings).toMatchObject({ total_elements: 5, matched: 2, content: '# Annual Report\n\n# Risks' });
+
+    const pageTwo = await queryParsedDocument({ parseResult: savedPath, pageFrom: 2, pageTo: 2, format: 'html' });
+    expect(pageTwo.elements.map((match) => match.id)).toEqual([2, 3]);
+    expect(pageTwo.content).toBe("<h1 id='2'>Risks</h1>\n<p id='3'>Currency risk.</p>");
+
+    // Text is matched against elements that only have HTML as well
+    const revenue = await queryParsedDocument({ parseResult: savedPath, text: 'REVENUE', format: 'text' });
+    expect(revenue.elements).toEqual([
+      { id: 1, category: 'paragraph', page: 1, content: 'Revenue grew in 2025.' },
+      { id: 4, category: 'table', page: 3, content: 'Revenue 10' },
+    ]);
+  });
+
+  it('pages through matches and accepts resource URIs', async () => {
+    const first = await queryParsedDocument({ parseResult: outputPathToUri(savedPath), limit: 2 });
+    expect(first.elements.map((match) => match.id)).toEqual([0, 1]);
+    expect(first.next_offset).toBe(2);
+
+    const last = await queryParsedDocument({ parseResult: savedPath, offset: 4, limit: 2 });
+    expect(last.elements.map((match) => match.id)).toEqual([4]);
+    expect(last.next_offset).toBeUndefined();
+  });
+
+  it('rejects an inverted page range and a missing result', async () => {
+    await expect(queryParsedDocument({ parseResult: savedPath, pageFrom: 3, pageTo: 1 })).rejects.toThrow(
+      'page_from (3) is after page_to (1)'
+    );
+    await expect(
+      queryParsedDocument({ parseResult: path.join(homeDir, 'missing.json') })
+    ).rejects.toMatchObject({ code: 'FILE_NOT_FOUND' });
+  });
+});
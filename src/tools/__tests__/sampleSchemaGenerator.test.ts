@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockUpstageServer, mockResponses } from '../../mock/mockUpstageServer';
+import { loadApiConfig, getNamedSchema, createExtractionSchema, readJsonFile } from '../../utils';
+import { generateSchemaFromSamples } from '../sampleSchemaGenerator';
+
+function generatedSchema(properties: Record<string, any>) {
+  return mockResponses.completion(JSON.stringify(createExtractionSchema(properties, 'invoice_schema')));
+}
+
+describe('generateSchemaFromSamples', () => {
+  const mock = new MockUpstageServer();
+  let homeDir: string;
+  let samples: string[];
+
+  beforeAll(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-upstage-test-'));
+    jest.spyOn(os, 'homedir').mockReturnValue(homeDir);
+    process.env.UPSTAGE_CACHE_DISABLED = 'true';
+
+    samples = ['a.pdf', 'b.pdf', 'c.pdf'].map((name) => path.join(homeDir, name));
+    for (const sample of samples) {
+      await fs.writeFile(sample, 'mock document');
+    }
+
+    await mock.start();
+    loadApiConfig({ baseUrl: mock.baseUrl });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+    jest.restoreAllMocks();
+    delete process.env.UPSTAGE_CACHE_DISABLED;
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  it('unions fields, reconciles types and reports coverage', async () => {
+    mock.enqueue(
+      'SCHEMA_GENERATION',
+      generatedSchema({
+        invoice_number: { type: 'string', description: 'Invoice number' },
+        total: { type: 'integer', description: 'Total' },
+        items: {
+          type: 'array',
+          items: { type: 'object', properties: { name: { type: 'string' } } },
+        },
+      })
+    );
+    mock.enqueue(
+      'SCHEMA_GENERATION',
+      generatedSchema({
+        invoice_number: { type: 'number', description: 'Invoice number' },
+        total: { type: 'number', description: 'Total amount due' },
+        items: {
+          type: 'array',
+          items: { type: 'object', properties: { name: { type: 'string' }, qty: { type: 'number' } } },
+        },
+      })
+    );
+    mock.enqueue(
+      'SCHEMA_GENERATION',
+      generatedSchema({
+        invoice_number: { type: 'string', description: 'Number of the invoice' },
+        vat_id: { type: 'string', description: 'VAT id' },
+      })
+    );
+
+    const result = await generateSchemaFromSamples({ filePaths: samples, apiKey: 'test-key', saveAs: 'invoices' });
+
+    expect(result.schema.json_schema.schema.properties).toMatchObject({
+      invoice_number: { type: 'string', description: 'Invoice number' },
+      total: { type: 'number', description: 'Total amount due' },
+      items: { type: 'array', items: { properties: { name: { type: 'string' }, qty: { type: 'number' } } } },
+      vat_id: { type: 'string' },
+    });
+    expect(result.coverage).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ path: 'invoice_number', present_in: 3, type_conflicts: { string: 2, number: 1 } }),
+        expect.objectContaining({ path: 'items[].qty', present_in: 1, coverage: 0.5 }),
+        expect.objectContaining({ path: 'vat_id', present_in: 1, coverage: 0.33, included: true }),
+      ])
+    );
+    expect(result.metadata).toMatchObject({ samples_used: 3, library_name: 'invoices', library_version: 1 });
+    expect((await getNamedSchema('invoices')).schema).toEqual(result.schema.json_schema);
+    expect(await readJsonFile(result.metadata.schema_saved_to)).toEqual(result.schema.json_schema);
+    expect(await readJsonFile(result.metadata.report_saved_to)).toMatchObject({ coverage: result.coverage });
+  });
+
+  it('skips failed samples and drops rare fields', async () => {
+    mock.enqueue('SCHEMA_GENERATION', generatedSchema({ total: { type: 'number' } }));
+    mock.enqueue('SCHEMA_GENERATION', mockResponses.clientError(400, 'Unreadable document'));
+    mock.enqueue('SCHEMA_GENERATION', generatedSchema({ total: { type: 'number' }, note: { type: 'string' } }));
+
+    const result = await generateSchemaFromSamples({ filePaths: samples, apiKey: 'test-key', minCoverage: 0.6 });
+
+    expect(Object.keys(result.schema.json_schema.schema.properties)).toEqual(['total']);
+    expect(result.coverage.find((entry) => entry.path === 'note')).toMatchObject({ included: false });
+    expect(result.samples.map((sample) => sample.status).sort()).toEqual(['failed', 'succeeded', 'succeeded']);
+    expect(result.metadata.samples_used).toBe(2);
+  });
+});
@@ -0,0 +1,100 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockUpstageServer, mockResponses } from '../../mock/mockUpstageServer';
+import { loadApiConfig, saveJsonToFile, getOutputDirectory, outputPathToUri } from '../../utils';
+import { extractTables } from '../tableExtractor';
+
+const parseResult = {
+  api: '2.0',
+  content: { html: '' },
+  elements: [
+    { id: 0, category: 'heading1', page: 1, content: { html: '<h1>Report</h1>', text: 'Report' } },
+    { id: 1, category: 'caption', page: 1, content: { html: '<p>Table 1. Sales</p>', text: 'Table 1. Sales' } },
+    {
+      id: 2,
+      category: 'table',
+      page: 1,
+      content: { html: '<table><tr><th>Item</th><th>Qty</th></tr><tr><td>Pen</td><td>2</td></tr></table>' },
+    },
+    {
+      id: 3,
+      category: 'table',
+      page: 2,
+      content: { html: '<table><tr><td>a, b</td><td>c</td></tr></table>' },
+    },
+  ],
+};
+
+describe('extractTables', () => {
+  const mock = new MockUpstageServer();
+  let homeDir: string;
+  let documentPath: string;
+
+  beforeAll(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-upstage-test-'));
+    jest.spyOn(os, 'homedir').mockReturnValue(homeDir);
+    process.env.UPSTAGE_CACHE_DISABLED = 'true';
+
+    documentPath = path.join(homeDir, 'report.pdf');
+    await fs.writeFile(documentPath, 'mock document');
+
+    await mock.start();
+    loadApiConfig({ baseUrl: mock.baseUrl });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+    jest.restoreAllMocks();
+    delete process.env.UPSTAGE_CACHE_DISABLED;
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  it('parses the document and saves each table as JSON and CSV', async () => {
+    mock.enqueue('DOCUMENT_DIGITIZATION', mockResponses.success(parseResult));
+
+    const result = await extractTables({ filePath: documentPath, getApiKey: () => 'test-key' });
+
+    expect(result.tables).toHaveLength(2);
+    expect(result.tables[0]).toMatchObject({
+      index: 1,
+      element_id: 2,
+      page: 1,
+      caption: 'Table 1. Sales',
+      columns: ['Item', 'Qty'],
+      rows: [['Item', 'Qty'], ['Pen', '2']],
+    });
+    expect(result.tables[1]).toMatchObject({ page: 2, caption: undefined, csv: '"a, b",c' });
+
+    expect(await fs.readFile(result.tables[1].csv_saved_to, 'utf-8')).toBe('"a, b",c');
+    const saved = JSON.parse(await fs.readFile(result.tables[0].saved_to, 'utf-8'));
+    expect(saved.records).toEqual([{ Item: 'Pen', Qty: '2' }]);
+    expect(path.basename(result.tables[0].saved_to)).toMatch(/^report_.*_table_1\.json$/);
+  });
+
+  it('reuses a saved parse result without calling the API', async () => {
+    const savedPath = path.join(getOutputDirectory('document_parsing'), 'report_2026-01-01T00-00-00_upstage.json');
+    await fs.mkdir(path.dirname(savedPath), { recursive: true });
+    await saveJsonToFile(parseResult, savedPath);
+
+    const result = await extractTables({ parseResult: outputPathToUri(savedPath), getApiKey: () => 'test-key' });
+
+    expect(result.parse_saved_to).toBe(savedPath);
+    expect(result.tables.map((table) => table.columns)).toEqual([['Item', 'Qty'], ['column_1', 'column_2']]);
+    expect(path.basename(result.tables[0].saved_to)).toMatch(/^report_\d{4}.*_table_1\.json$/);
+    expect(mock.requestsFor('DOCUMENT_DIGITIZATION')).toHaveLength(0);
+  });
+
+  it('rejects a file that is not a parse result', async () => {
+    const otherPath = path.join(homeDir, 'other.json');
+    await fs.writeFile(otherPath, '{"foo": 1}');
+
+    await expect(extractTables({ parseResult: otherPath, getApiKey: () => 'test-key' })).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import fg from 'fast-glob';
+import {
+  getOutputDirectory,
+  ensureDirectoryExists,
+  saveJsonToFile,
+  describeError,
+  ProgressCallback,
+  ToolErrorDetails,
+  ValidationError,
+  ALLOWED_EXTENSIONS,
+  BATCH_LIMITS,
+} from '../utils';
+import { parseDocument, DocumentParseSettings } from './documentParser';
+import { extractInformation } from './informationExtractor';
+import { classifyDocument } from './documentClassifier';
+
+export type BatchOperation = 'parse' | 'extract' | 'classify';
+
+/**
+ * Where to find the documents of a batch; the sources are combined
+ */
+export interface BatchInput {
+  directory?: string;
+  /** Include files in subdirectories of `directory` */
+  recursive?: boolean;
+  /** Glob such as /data/invoices/**\/*.pdf */
+  pattern?: string;
+  filePaths?: string[];
+}
+
+interface BatchOptions extends BatchInput {
+  apiKey: string;
+  /** Files processed at the same time */
+  concurrency?: number;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+  noCache?: boolean;
+}
+
+export interface BatchParseOptions extends BatchOptions {
+  settings?: DocumentParseSettings;
+}
+
+export interface BatchExtractOptions extends BatchOptions {
+  schemaName?: string;
+  schemaSpec?: string;
+  schemaPath?: string;
+  schemaJson?: string;
+  autoGenerateSchema?: boolean;
+  coerceTypes?: boolean;
+}
+
+export interface BatchClassifyOptions extends BatchOptions {
+  schemaPath?: string;
+  schemaJson?: string;
+}
+
+export interface BatchItem {
+  file: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  /** Path of the saved result for succeeded files */
+  output_path?: string;
+  /** Short result summary, e.g. the predicted category */
+  result?: Record<string, any>;
+  /** Why a file was skipped */
+  reason?: string;
+  error?: ToolErrorDetails;
+}
+
+export interface BatchResult {
+  operation: BatchOperation;
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  started_at: string;
+  finished_at: string;
+  items: BatchItem[];
+  /** Not set for a cancelled batch, which saves no manifest */
+  manifest_saved_to?: string;
+}
+
+interface FileOutcome {
+  output_path: string;
+  result?: Record<string, any>;
+}
+
+type ProcessFile = (filePath: string, onProgress: ProgressCallback, signal?: AbortSignal) => Promise<FileOutcome>;
+
+const OUTPUT_CATEGORIES: Record<BatchOperation, string> = {
+  parse: 'document_parsing',
+  extract: 'information_extraction',
+  classify: 'document_classification',
+};
+
+/**
+ * Collect the files of a batch from a directory, a glob and an explicit list
+ * @param input - Batch sources
+ * @param allowedExtensions - Extensions the target API accepts; other files found by directory or glob are skipped
+ * @returns Absolute paths to process, in a stable order, and the files skipped
+ * @throws ValidationError if no source is given or nothing matched
+ */
+export async function resolveBatchFiles(
+  input: BatchInput,
+  allowedExtensions: readonly string[]
+): Promise<{ files: string[]; skipped: BatchItem[] }> {
+  const { directory, recursive, pattern, filePaths } = input;
+  
+  if (!directory && !pattern && (!filePaths || filePaths.length === 0)) {
+    throw new ValidationError('No documents given', {
+      hint: 'Pass a directory, a glob pattern or a list of file_paths',
+    });
+  }
+  
+  const discovered: string[] = [];
+  
+  if (directory) {
+    try {
+      await fs.access(directory);
+    } catch {
+      throw new ValidationError(`Directory not found: ${directory}`, { code: 'FILE_NOT_FOUND' });
+    }
+    discovered.push(
+      ...(await fg(recursive ? '**/*' : '*', { cwd: path.resolve(directory), absolute: true, onlyFiles: true }))
+    );
+  }
+  
+  if (pattern) {
+    discovered.push(...(await fg(pattern, { absolute: true, onlyFiles: true })));
+  }
+  
+  const files = new Set<string>();
+  const skipped: BatchItem[] = [];
+  
+  for (const file of [...new Set(discovered.map((file) => path.resolve(file)))].sort()) {
+    if (allowedExtensions.includes(path.extname(file).toLowerCase())) {
+      files.add(file);
+    } else {
+      skipped.push({ file, status: 'skipped', reason: `Unsupported file format: ${path.extname(file) || '(none)'}` });
+    }
+  }
+  
+  // Explicitly listed files are always attempted, so a bad path shows up as a failure
+  for (const file of filePaths || []) {
+    files.add(path.resolve(file));
+  }
+  
+  if (files.size === 0) {
+    throw new ValidationError('No supported documents matched the batch input', {
+      code: 'FILE_NOT_FOUND',
+      hint: `Supported formats: ${allowedExtensions.join(', ')}`,
+    });
+  }
+  
+  if (files.size > BATCH_LIMITS.MAX_FILES) {
+    throw new ValidationError(`Batch has ${files.size} files; the maximum is ${BATCH_LIMITS.MAX_FILES}`, {
+      hint: 'Split the batch into several calls',
+    });
+  }
+  
+  return { files: [...files], skipped };
+}
+
+/**
+ * Run one operation over many files with bounded concurrency, recording failures instead of stopping
+ */
+async function runBatch(
+  operation: BatchOperation,
+  options: BatchOptions,
+  allowedExtensions: readonly string[],
+  processFile: ProcessFile
+): Promise<BatchResult> {
+  const { concurrency = BATCH_LIMITS.DEFAULT_CONCURRENCY, onProgress, signal } = options;
+  const startedAt = new Date().toISOString();
+  const { files, skipped } = await resolveBatchFiles(options, allowedExtensions);
+  
+  const items: BatchItem[] = new Array(files.length);
+  // Fraction of each file done, so progress moves while files are in flight
+  const fileProgress = new Array<number>(files.length).fill(0);
+  let finished = 0;
+  let failed = 0;
+  let reportedProgress = 0;
+  
+  const report = async () => {
+    if (!onProgress) {
+      return;
+    }
+    const progress = fileProgress.reduce((sum, value) => sum + value, 0);
+    // Progress must keep increasing; concurrent files can report out of order
+    if (progress <= reportedProgress) {
+      return;
+    }
+    reportedProgress = progress;
+    await onProgress({
+      progress,
+      total: files.length,
+      message: `${finished}/${files.length} files processed${failed > 0 ? ` (${failed} failed)` : ''}`,
+    });
+  };
+  
+  let next = 0;
+  const worker = async () => {
+    while (next < files.length) {
+      const index = next++;
+      const file = files[index];
+      
+      if (signal?.aborted) {
+        items[index] = { file, status: 'skipped', reason: 'Batch cancelled' };
+        continue;
+      }
+      
+      const onFileProgress: ProgressCallback = async ({ progress, total }) => {
+        fileProgress[index] = Math.max(fileProgress[index], Math.min(progress / total, 0.99));
+        await report();
+      };
+      
+      try {
+        const outcome = await processFile(file, onFileProgress, signal);
+        items[index] = { file, status: 'succeeded', ...outcome };
+      } catch (error) {
+        failed++;
+        items[index] = { file, status: 'failed', error: describeError(error) };
+      }
+      
+      finished++;
+      fileProgress[index] = 1;
+      await report();
+    }
+  };
+  
+  const workerCount = Math.max(1, Math.min(concurrency, BATCH_LIMITS.MAX_CONCURRENCY, files.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  
+  const allItems = [...items, ...skipped];
+  const result: BatchResult = {
+    operation,
+    total: allItems.length,
+    succeeded: allItems.filter((item) => item.status === 'succeeded').length,
+    failed,
+    skipped: allItems.filter((item) => item.status === 'skipped').length,
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    items: allItems,
+  };
+  
+  // A cancelled batch reports the files it did not start but saves no manifest
+  if (signal?.aborted) {
+    return result;
+  }
+  
+  const outputDir = getOutputDirectory(OUTPUT_CATEGORIES[operation]);
+  await ensureDirectoryExists(outputDir);
+  const timestamp = startedAt.replace(/[:.]/g, '-').slice(0, -5);
+  // The timestamp has one-second resolution, so concurrent batches need a unique part as well
+  result.manifest_saved_to = path.join(
+    outputDir,
+    `batch_${operation}_${timestamp}_${randomUUID().slice(0, 8)}_manifest.json`
+  );
+  
+  await saveJsonToFile(result, result.manifest_saved_to, { indent: 2 });
+  
+  return result;
+}
+
+export async function batchParse(options: BatchParseOptions): Promise<BatchResult> {
+  const { apiKey, settings, noCache } = options;
+  
+  return runBatch('parse', options, ALLOWED_EXTENSIONS.DOCUMENT_PARSING, async (filePath, onProgress, signal) => {
+    const result = await parseDocument({
+      ...settings,
+      filePath,
+      apiKey,
+      onProgress,
+      signal,
+      noCache,
+    });
+    return { output_path: result.saved_to, result: { elements: result.elements.length } };
+  });
+}
+
+export async function batchExtract(options: BatchExtractOptions): Promise<BatchResult> {
+  const { apiKey, schemaName, schemaSpec, schemaPath, schemaJson, autoGenerateSchema, coerceTypes, noCache } =
+    options;
+  
+  return runBatch('extract', options, ALLOWED_EXTENSIONS.INFO_EXTRACTION, async (filePath, onProgress, signal) => {
+    const result = await extractInformation({
+      filePath,
+      apiKey,
+      schemaName,
+      schemaSpec,
+      schemaPath,
+      schemaJson,
+      autoGenerateSchema,
+      coerceTypes,
+      onProgress,
+      signal,
+      noCache,
+    });
+    return { output_path: result.metadata.result_saved_to, result: result.extracted_data };
+  });
+}
+
+export async function batchClassify(options: BatchClassifyOptions): Promise<BatchResult> {
+  const { apiKey, schemaPath, schemaJson, noCache } = options;
+  
+  return runBatch('classify', options, ALLOWED_EXTENSIONS.INFO_EXTRACTION, async (filePath, onProgress, signal) => {
+    const result = await classifyDocument({
+      filePath,
+      apiKey,
+      schemaPath,
+      schemaJson,
+      onProgress,
+      signal,
+      noCache,
+    });
+    return { output_path: result.metadata.result_saved_to, result: { classification: result.classification } };
+  });
+}
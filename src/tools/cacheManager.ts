@@ -0,0 +1,29 @@
+import { getCacheStats, clearCache, CacheStats } from '../utils';
+
+interface ManageCacheOptions {
+  action: 'inspect' | 'clear';
+  key?: string;
+  /** Only the entries fetched with this API key are inspected or cleared */
+  apiKey: string;
+}
+
+export interface ManageCacheResult {
+  action: 'inspect' | 'clear';
+  removed?: number;
+  cache: CacheStats;
+}
+
+export async function manageCache(options: ManageCacheOptions): Promise<ManageCacheResult> {
+  const { action, key, apiKey } = options;
+  
+  if (action === 'clear') {
+    const removed = await clearCache(apiKey, key);
+    return { action, removed, cache: await getCacheStats(apiKey) };
+  }
+  
+  const cache = await getCacheStats(apiKey);
+  return {
+    action,
+    cache: key ? { ...cache, items: cache.items.filter((item) => item.key === key) } : cache,
+  };
+}
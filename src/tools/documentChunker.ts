@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  chunkElements,
+  parsedDocumentName,
+  ChunkSizeUnit,
+  DocumentChunk,
+  ElementFormat,
+  ValidationError,
+  CHUNK_DEFAULTS,
+} from '../utils';
+import { loadOrParseDocument, ParseSourceOptions } from './documentParser';
+
+interface ChunkDocumentOptions extends ParseSourceOptions {
+  /** Maximum chunk size; defaults depend on the unit */
+  maxSize?: number;
+  overlap?: number;
+  unit?: ChunkSizeUnit;
+  format?: ElementFormat;
+}
+
+export type ChunkSummary = Omit<DocumentChunk, 'content'>;
+
+export interface ChunkDocumentResult {
+  source: string;
+  /** Path of the parse result that was chunked */
+  parse_saved_to: string;
+  /** Path of the JSONL file with one chunk per line */
+  chunks_saved_to: string;
+  chunk_count: number;
+  /** Chunk metadata; the content is in the JSONL file */
+  chunks: ChunkSummary[];
+}
+
+export async function chunkDocument(options: ChunkDocumentOptions): Promise<ChunkDocumentResult> {
+  const { filePath, onProgress, signal, unit = 'tokens', format = 'markdown' } = options;
+  const maxSize = options.maxSize ?? (unit === 'tokens' ? CHUNK_DEFAULTS.MAX_TOKENS : CHUNK_DEFAULTS.MAX_CHARS);
+  const defaultOverlap = unit === 'tokens' ? CHUNK_DEFAULTS.OVERLAP_TOKENS : CHUNK_DEFAULTS.OVERLAP_CHARS;
+  const overlap = options.overlap ?? Math.min(defaultOverlap, Math.floor(maxSize / 2));
+  
+  if (overlap >= maxSize) {
+    throw new ValidationError(`Overlap (${overlap}) must be smaller than the maximum chunk size (${maxSize})`);
+  }
+  
+  const parsed = await loadOrParseDocument(options);
+  const chunks = chunkElements(parsed.elements, { maxSize, overlap, unit, format });
+  
+  // Skip writing results for a cancelled request
+  signal?.throwIfAborted();
+  
+  // The chunks are written next to the parse result they came from
+  const documentName = filePath ? path.basename(filePath) : parsedDocumentName(parsed.saved_to);
+  const chunksPath = path.join(
+    path.dirname(parsed.saved_to),
+    `${path.basename(parsed.saved_to, '.json')}_chunks.jsonl`
+  );
+  const lines = chunks.map(({ content, ...metadata }) =>
+    JSON.stringify({
+      id: `${documentName}#${metadata.index}`,
+      content,
+      metadata: { source: parsed.source, parse_result: parsed.saved_to, ...metadata },
+    })
+  );
+  await fs.writeFile(chunksPath, lines.length > 0 ? `${lines.join('\n')}\n` : '', 'utf-8');
+  
+  if (onProgress) {
+    await onProgress({ progress: 100, total: 100, message: `Wrote ${chunks.length} chunks` });
+  }
+  
+  return {
+    source: parsed.source,
+    parse_saved_to: parsed.saved_to,
+    chunks_saved_to: chunksPath,
+    chunk_count: chunks.length,
+    chunks: chunks.map(({ content, ...metadata }) => metadata),
+  };
+}
@@ -1,14 +1,21 @@
 import path from 'path';
 import {
-  API_ENDPOINTS,
+  getApiEndpoints,
   makeApiRequest,
   validateExtractionFile,
   getOutputDirectory,
   generateTimestampedFilename,
   saveJsonToFile,
   ensureDirectoryExists,
+  readSchemaFile,
+  findSavedOutput,
+  recordSavedOutput,
   readFileAsBase64,
   getMimeType,
+  ProgressCallback,
+  reportQueueWait,
+  UpstageApiError,
+  ValidationError,
 } from '../utils';
 
 interface ClassifyDocumentOptions {
@@ -16,7 +23,19 @@ interface ClassifyDocumentOptions {
   apiKey: string;
   schemaPath?: string;
   schemaJson?: string;
-  onProgress?: (progress: { progress: number; total: number }) => Promise<void>;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+  /** Bypass the result cache and always call the API */
+  noCache?: boolean;
+}
+
+export interface ClassifyDocumentResult {
+  classification: string;
+  metadata: {
+    file: string;
+    result_saved_to: string;
+    schema_used: string;
+  };
 }
 
 /**
@@ -47,15 +66,15 @@ const DEFAULT_CLASSIFICATION_SCHEMA = {
   },
 };
 
-export async function classifyDocument(options: ClassifyDocumentOptions): Promise<string> {
-  const { filePath, apiKey, schemaPath, schemaJson, onProgress } = options;
+export async function classifyDocument(options: ClassifyDocumentOptions): Promise<ClassifyDocumentResult> {
+  const { filePath, apiKey, schemaPath, schemaJson, onProgress, signal, noCache } = options;
   
   // Validate input file
   await validateExtractionFile(filePath);
   
   // Report initial progress
   if (onProgress) {
-    await onProgress({ progress: 10, total: 100 });
+    await onProgress({ progress: 10, total: 100, message: 'Validated document' });
   }
   
   let responseFormat: any = {
@@ -108,15 +127,23 @@ export async function classifyDocument(options: ClassifyDocumentOptions): Promis
         }
       };
     } catch (error) {
-      throw new Error(`Invalid classification categories: ${error instanceof Error ? error.message : error}`);
+      throw new ValidationError(`Invalid classification categories: ${error instanceof Error ? error.message : error}`, {
+        code: 'INVALID_SCHEMA',
+        hint: 'Pass a JSON array of {"const": ..., "description": ...} categories',
+      });
     }
     if (onProgress) {
-      await onProgress({ progress: 20, total: 100 });
+      await onProgress({ progress: 20, total: 100, message: 'Loaded custom classification categories' });
     }
   } else if (schemaPath) {
     // Load schema from file
-    const { readJsonFile } = await import('../utils');
-    const loadedSchema = await readJsonFile(schemaPath);
+    const loadedSchema = await readSchemaFile(
+      schemaPath,
+      'Pass a JSON file with a classification response_format, or use schema_json for a list of categories'
+    );
+    if (!loadedSchema || typeof loadedSchema !== 'object') {
+      throw new ValidationError(`Schema file ${schemaPath} does not contain a JSON object`, { code: 'INVALID_SCHEMA' });
+    }
     if (loadedSchema.type === 'json_schema' && loadedSchema.json_schema) {
       responseFormat = loadedSchema;
     } else {
@@ -126,7 +153,7 @@ export async function classifyDocument(options: ClassifyDocumentOptions): Promis
       };
     }
     if (onProgress) {
-      await onProgress({ progress: 20, total: 100 });
+      await onProgress({ progress: 20, total: 100, message: 'Loaded classification schema from file' });
     }
   }
   
@@ -136,7 +163,7 @@ export async function classifyDocument(options: ClassifyDocumentOptions): Promis
   
   // Report encoding progress
   if (onProgress) {
-    await onProgress({ progress: 40, total: 100 });
+    await onProgress({ progress: 40, total: 100, message: 'Encoded document' });
   }
   
   // Prepare request data in OpenAI format
@@ -160,37 +187,44 @@ export async function classifyDocument(options: ClassifyDocumentOptions): Promis
   
   // Report API request progress
   if (onProgress) {
-    await onProgress({ progress: 60, total: 100 });
+    await onProgress({ progress: 60, total: 100, message: 'Waiting for Upstage document classification' });
   }
   
   // Make classification request
   const result = await makeApiRequest(
-    API_ENDPOINTS.DOCUMENT_CLASSIFICATION,
+    getApiEndpoints().DOCUMENT_CLASSIFICATION,
     apiKey,
     {
       json: requestData,
+      signal,
+      onQueueWait: reportQueueWait(onProgress, 60, 90),
+      useCache: !noCache,
     },
     'Document classification'
   );
   
   // Extract classification from response
   if (!result.choices || result.choices.length === 0) {
-    throw new Error('Invalid response from document classification API');
+    throw new UpstageApiError('Invalid response from document classification API', { code: 'UPSTAGE_INVALID_RESPONSE' });
   }
   
   const classificationResult = result.choices[0].message.content;
   
   // Report saving progress
   if (onProgress) {
-    await onProgress({ progress: 90, total: 100 });
+    await onProgress({ progress: 90, total: 100, message: 'Saving classification result' });
   }
   
-  // Save results
-  const outputDir = getOutputDirectory('document_classification');
-  await ensureDirectoryExists(outputDir);
+  // Skip writing results for a cancelled request
+  signal?.throwIfAborted();
   
-  const outputFilename = generateTimestampedFilename(filePath, 'classification');
-  const outputPath = path.join(outputDir, outputFilename);
+  // Reuse the file saved for a cached result
+  const schemaUsed = schemaPath || (schemaJson ? 'custom' : 'default');
+  const outputKind = `classification:${schemaUsed}`;
+  const savedPath = await findSavedOutput(result, outputKind);
+  
+  const outputDir = getOutputDirectory('document_classification');
+  const outputPath = savedPath || path.join(outputDir, generateTimestampedFilename(filePath, 'classification'));
   
   // Save results with metadata
   const response = {
@@ -198,26 +232,30 @@ export async function classifyDocument(options: ClassifyDocumentOptions): Promis
     metadata: {
       file: path.basename(filePath),
       result_saved_to: outputPath,
-      schema_used: schemaPath || (schemaJson ? 'custom' : 'default'),
+      schema_used: schemaUsed,
       api_response: result
     }
   };
   
-  await saveJsonToFile(response, outputPath, { indent: 2 });
+  if (!savedPath) {
+    await ensureDirectoryExists(outputDir);
+    await saveJsonToFile(response, outputPath, { indent: 2 });
+    await recordSavedOutput(result, outputKind, outputPath);
+  }
   
   // Report completion
   if (onProgress) {
-    await onProgress({ progress: 100, total: 100 });
+    await onProgress({ progress: 100, total: 100, message: 'Document classification complete' });
   }
   
-  return JSON.stringify({
+  return {
     classification: classificationResult,
     metadata: {
       file: path.basename(filePath),
       result_saved_to: outputPath,
-      schema_used: schemaPath || (schemaJson ? 'custom' : 'default')
+      schema_used: schemaUsed
     }
-  }, null, 2);
+  };
 }
 
 export async function classifyDocumentFromFile(
@@ -226,9 +264,11 @@ export async function classifyDocumentFromFile(
   options: {
     schemaPath?: string;
     schemaJson?: string;
-    onProgress?: (progress: { progress: number; total: number }) => Promise<void>;
+    onProgress?: ProgressCallback;
+    signal?: AbortSignal;
+    noCache?: boolean;
   } = {}
-): Promise<string> {
+): Promise<ClassifyDocumentResult> {
   return classifyDocument({
     filePath,
     apiKey,
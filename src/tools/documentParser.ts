@@ -1,96 +1,217 @@
 import path from 'path';
 import {
-  API_ENDPOINTS,
+  getApiEndpoints,
   makeApiRequest,
+  findSavedOutput,
+  recordSavedOutput,
   validateDocumentFile,
   getOutputDirectory,
   generateTimestampedFilename,
   saveJsonToFile,
   ensureDirectoryExists,
+  ProgressCallback,
+  reportQueueWait,
+  readSavedParseResult,
+  scaleProgress,
+  ValidationError,
+  DOCUMENT_PARSE_DEFAULTS,
 } from '../utils';
 
-interface ParseDocumentOptions {
+/**
+ * Document Parse request options shared by synchronous and async parsing
+ */
+export interface DocumentParseSettings {
+  outputFormats?: string[];
+  /** 'force' always runs OCR, 'auto' only for images and scanned pages */
+  ocr?: 'auto' | 'force';
+  /** Element categories whose cropped images are returned as base64 */
+  base64Encoding?: string[];
+  /** Include bounding box coordinates for each element */
+  coordinates?: boolean;
+  /** Convert charts into tables */
+  chartRecognition?: boolean;
+  /** Merge tables that continue across pages */
+  mergeMultipageTables?: boolean;
+  model?: string;
+}
+
+export interface ParseDocumentOptions extends DocumentParseSettings {
   filePath: string;
   apiKey: string;
-  outputFormats?: string[];
-  onProgress?: (progress: { progress: number; total: number }) => Promise<void>;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+  /** Bypass the result cache and always call the API */
+  noCache?: boolean;
 }
 
-export async function parseDocument(options: ParseDocumentOptions): Promise<string> {
-  const { filePath, apiKey, outputFormats, onProgress } = options;
-  
-  // Validate input file
-  await validateDocumentFile(filePath);
-  
-  // Report initial progress
-  if (onProgress) {
-    await onProgress({ progress: 10, total: 100 });
-  }
+export interface ParseDocumentResult {
+  elements: Record<string, any>[];
+  content: Record<string, any>;
+  saved_to: string;
+}
+
+/**
+ * Build the multipart form fields for a Document Parse request
+ * @param settings - Parse options; unset options fall back to the server defaults
+ * @returns Form fields to send alongside the document
+ */
+export function buildParseRequestData(settings: DocumentParseSettings): Record<string, any> {
+  const {
+    outputFormats,
+    ocr = DOCUMENT_PARSE_DEFAULTS.OCR,
+    base64Encoding = DOCUMENT_PARSE_DEFAULTS.BASE64_ENCODING,
+    coordinates,
+    chartRecognition,
+    mergeMultipageTables,
+    model = DOCUMENT_PARSE_DEFAULTS.MODEL,
+  } = settings;
   
   // For document parsing, we still use the original multipart/form-data approach
   // as this endpoint may not support the OpenAI format like information extraction
   const requestData: Record<string, any> = {
-    ocr: 'force',
-    base64_encoding: "['table']",
-    model: 'document-parse',
+    ocr,
+    base64_encoding: `[${base64Encoding.map((category) => `'${category}'`).join(', ')}]`,
+    model,
   };
   
   if (outputFormats && outputFormats.length > 0) {
     requestData.output_formats = JSON.stringify(outputFormats);
   }
   
+  // Only send boolean flags that were set explicitly so the API defaults apply otherwise
+  if (coordinates !== undefined) {
+    requestData.coordinates = String(coordinates);
+  }
+  if (chartRecognition !== undefined) {
+    requestData.chart_recognition = String(chartRecognition);
+  }
+  if (mergeMultipageTables !== undefined) {
+    requestData.merge_multipage_tables = String(mergeMultipageTables);
+  }
+  
+  return requestData;
+}
+
+export async function parseDocument(options: ParseDocumentOptions): Promise<ParseDocumentResult> {
+  const { filePath, apiKey, onProgress, signal, noCache } = options;
+  
+  // Validate input file
+  await validateDocumentFile(filePath);
+  
+  // Report initial progress
+  if (onProgress) {
+    await onProgress({ progress: 10, total: 100, message: 'Validated document' });
+  }
+  
+  const requestData = buildParseRequestData(options);
+  
   // Report API call progress
   if (onProgress) {
-    await onProgress({ progress: 30, total: 100 });
+    await onProgress({ progress: 30, total: 100, message: 'Uploading document and waiting for Upstage Document Parse' });
   }
   
   // Make API request using files (multipart form data)
   const result = await makeApiRequest(
-    API_ENDPOINTS.DOCUMENT_DIGITIZATION,
+    getApiEndpoints().DOCUMENT_DIGITIZATION,
     apiKey,
     {
       files: { document: filePath },
       data: requestData,
+      signal,
+      onQueueWait: reportQueueWait(onProgress, 30, 80),
+      useCache: !noCache,
     },
     'Document parsing'
   );
   
   // Report processing progress
   if (onProgress) {
-    await onProgress({ progress: 80, total: 100 });
+    await onProgress({ progress: 80, total: 100, message: 'Saving parse result' });
   }
   
-  // Save results
-  const outputDir = getOutputDirectory('document_parsing');
-  await ensureDirectoryExists(outputDir);
+  // Skip writing results for a cancelled request
+  signal?.throwIfAborted();
   
-  const outputFilename = generateTimestampedFilename(filePath);
-  const outputPath = path.join(outputDir, outputFilename);
-  
-  await saveJsonToFile(result, outputPath, { indent: 2 });
+  // Save results, unless a cached result was already saved
+  let outputPath = await findSavedOutput(result, 'document_parsing');
+  if (!outputPath) {
+    const outputDir = getOutputDirectory('document_parsing');
+    await ensureDirectoryExists(outputDir);
+    outputPath = path.join(outputDir, generateTimestampedFilename(filePath));
+    await saveJsonToFile(result, outputPath, { indent: 2 });
+    await recordSavedOutput(result, 'document_parsing', outputPath);
+  }
   
   // Report completion
   if (onProgress) {
-    await onProgress({ progress: 100, total: 100 });
+    await onProgress({ progress: 100, total: 100, message: 'Document parsing complete' });
   }
   
-  // Extract content for response
-  const content = result.content || {};
-  const responseText = JSON.stringify(content);
+  return {
+    elements: result.elements || [],
+    content: result.content || {},
+    saved_to: outputPath,
+  };
+}
+
+export interface ParseSourceOptions extends DocumentParseSettings {
+  /** Document to parse */
+  filePath?: string;
+  /** Saved parse result to reuse, as a file path or upstage://outputs/ URI */
+  parseResult?: string;
+  /** Called only when the document has to be parsed, so saved results need no API key */
+  getApiKey: () => string;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+  /** Bypass the result cache and always call the API */
+  noCache?: boolean;
+}
+
+/**
+ * Parse a document, or load a saved parse result, for tools working on parsed elements
+ * @param options - Either filePath or parseResult; progress of a parse is reported as 0-80
+ * @returns The document or parse result given, its elements and the path of the parse result
+ * @throws ValidationError unless exactly one of filePath and parseResult is given
+ */
+export async function loadOrParseDocument(
+  options: ParseSourceOptions
+): Promise<{ source: string; elements: Record<string, any>[]; saved_to: string }> {
+  const { filePath, parseResult, getApiKey, onProgress, signal, noCache, ...settings } = options;
   
-  return `${responseText}\n\nThe full response has been saved to ${outputPath} for your reference.`;
+  if (!filePath === !parseResult) {
+    throw new ValidationError('Pass either file_path or parse_result', {
+      hint: 'Use parse_result to reuse the saved_to path of an earlier parse_document call',
+    });
+  }
+  
+  if (parseResult) {
+    const saved = await readSavedParseResult(parseResult);
+    return { source: parseResult, elements: saved.elements, saved_to: saved.path };
+  }
+  
+  const parsed = await parseDocument({
+    ...settings,
+    filePath: filePath!,
+    apiKey: getApiKey(),
+    signal,
+    noCache,
+    onProgress: scaleProgress(onProgress, 0, 80),
+  });
+  return { source: filePath!, elements: parsed.elements, saved_to: parsed.saved_to };
 }
 
 export async function parseAndSaveDocument(
   filePath: string,
   apiKey: string,
   outputFormats?: string[],
-  onProgress?: (progress: { progress: number; total: number }) => Promise<void>
-): Promise<string> {
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<ParseDocumentResult> {
   return parseDocument({
     filePath,
     apiKey,
     outputFormats,
     onProgress,
+    signal,
   });
 }
\ No newline at end of file
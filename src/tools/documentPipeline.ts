@@ -0,0 +1,250 @@
+import path from 'path';
+import {
+  getOutputDirectory,
+  generateTimestampedFilename,
+  saveJsonToFile,
+  readSchemaFile,
+  ensureDirectoryExists,
+  toJsonSchemaPart,
+  getCategorySchemaMap,
+  scaleProgress,
+  commonSchemas,
+  hasNamedSchema,
+  getNamedSchema,
+  ProgressCallback,
+  ExtractionValidationReport,
+  ValidationError,
+} from '../utils';
+import { classifyDocument } from './documentClassifier';
+import { extractInformation } from './informationExtractor';
+
+/**
+ * A schema for a category: 'builtin:<name>', 'auto', 'none', a saved schema name, a schema file path, or an inline schema
+ */
+export type SchemaReference = string | Record<string, any>;
+
+/**
+ * Built-in mapping from the default classification categories to commonSchemas
+ */
+export const DEFAULT_CATEGORY_SCHEMAS: Record<string, SchemaReference> = {
+  invoice: 'builtin:invoice',
+  receipt: 'builtin:receipt',
+  business_card: 'builtin:businessCard',
+  contract: 'builtin:contract',
+};
+
+interface ProcessDocumentOptions {
+  filePath: string;
+  apiKey: string;
+  /** Custom classification categories, as for classify_document */
+  classificationSchemaPath?: string;
+  classificationSchemaJson?: string;
+  /** Per-call category mapping, checked before the config file and the built-in mapping */
+  schemaMap?: Record<string, SchemaReference>;
+  /** What to do for categories without a mapping */
+  fallback?: 'auto' | 'none';
+  /** Convert extracted values to the types declared in the schema */
+  coerceTypes?: boolean;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+  /** Bypass the result cache and always call the API */
+  noCache?: boolean;
+}
+
+export interface ProcessDocumentResult {
+  file: string;
+  classification: string;
+  /** null when the category is mapped to 'none' */
+  extracted_data: Record<string, any> | null;
+  /** Field-level check of extracted_data; null when extraction is skipped */
+  validation: ExtractionValidationReport | null;
+  schema: {
+    /** Mapping entry that matched: the category, '*' or 'fallback' */
+    matched: string;
+    /** Where the schema came from, e.g. builtin:invoice, a file path, inline or auto-generated */
+    source: string;
+  };
+  metadata: {
+    classification_saved_to: string;
+    extraction_saved_to?: string;
+    result_saved_to: string;
+  };
+}
+
+type ResolvedSchema =
+  | { kind: 'schema'; schema: Record<string, any>; source: string }
+  | { kind: 'auto' }
+  | { kind: 'none' };
+
+/**
+ * Validate a mapped schema, reporting which mapping entry was wrong
+ */
+function toValidatedSchema(schema: any, source: string): Record<string, any> {
+  try {
+    return toJsonSchemaPart(schema);
+  } catch (error) {
+    throw new ValidationError(`Invalid schema for ${source}: ${error instanceof Error ? error.message : error}`, {
+      code: 'INVALID_SCHEMA',
+    });
+  }
+}
+
+function findBuiltinSchema(name: string): Record<string, any> | undefined {
+  const normalized = name.toLowerCase().replace(/[_-]/g, '');
+  const entry = Object.entries(commonSchemas).find(([key]) => key.toLowerCase() === normalized);
+  return entry?.[1].json_schema;
+}
+
+/**
+ * Turn a mapping entry into a schema to extract with
+ *
+ * A string that is neither a keyword nor a saved schema name is read as a file path.
+ * @param reference - Mapping value
+ * @returns The schema, or an instruction to auto-generate or skip extraction
+ * @throws ValidationError for unknown built-in schemas and unreadable or invalid schema files
+ */
+export async function resolveSchemaReference(reference: SchemaReference): Promise<ResolvedSchema> {
+  if (typeof reference !== 'string') {
+    return { kind: 'schema', schema: toValidatedSchema(reference, 'inline schema'), source: 'inline' };
+  }
+  
+  if (reference === 'auto') {
+    return { kind: 'auto' };
+  }
+  if (reference === 'none') {
+    return { kind: 'none' };
+  }
+  
+  if (reference.startsWith('builtin:')) {
+    const schema = findBuiltinSchema(reference.slice('builtin:'.length));
+    if (!schema) {
+      throw new ValidationError(`Unknown built-in schema: ${reference}`, {
+        code: 'INVALID_SCHEMA',
+        hint: `Built-in schemas: ${Object.keys(commonSchemas).map((name) => `builtin:${name}`).join(', ')}`,
+      });
+    }
+    return { kind: 'schema', schema, source: reference };
+  }
+  
+  if (await hasNamedSchema(reference)) {
+    const named = await getNamedSchema(reference);
+    return { kind: 'schema', schema: named.schema, source: `library:${named.name}@${named.version}` };
+  }
+  
+  let schema: any;
+  try {
+    schema = await readSchemaFile(reference);
+  } catch (error) {
+    // A value that is no keyword, saved schema or file is most likely a mistyped name
+    if (error instanceof ValidationError && error.code === 'FILE_NOT_FOUND') {
+      throw new ValidationError(`No saved schema or schema file named ${reference}`, {
+        code: 'INVALID_SCHEMA',
+        hint: "Map categories to 'builtin:<name>', 'auto', 'none', a saved schema name or a schema file path",
+      });
+    }
+    throw error;
+  }
+  return { kind: 'schema', schema: toValidatedSchema(schema, reference), source: reference };
+}
+
+/**
+ * Find the mapping entry for a category: per-call map, then config file, then built-in defaults.
+ * Each map is searched fully, '*' included, before the next one is consulted.
+ */
+function lookupCategorySchema(
+  category: string,
+  schemaMap: Record<string, SchemaReference> = {}
+): { matched: string; reference?: SchemaReference } {
+  const mappings = [schemaMap, getCategorySchemaMap(), DEFAULT_CATEGORY_SCHEMAS];
+  
+  for (const mapping of mappings) {
+    if (mapping[category] !== undefined) {
+      return { matched: category, reference: mapping[category] };
+    }
+    // '*' sets the schema for every category without its own entry in the same map
+    if (mapping['*'] !== undefined) {
+      return { matched: '*', reference: mapping['*'] };
+    }
+  }
+  
+  return { matched: 'fallback' };
+}
+
+export async function processDocument(options: ProcessDocumentOptions): Promise<ProcessDocumentResult> {
+  const { filePath, apiKey, schemaMap, fallback = 'auto', coerceTypes, onProgress, signal, noCache } = options;
+  
+  // Classify first; the category decides the schema
+  const classification = await classifyDocument({
+    filePath,
+    apiKey,
+    schemaPath: options.classificationSchemaPath,
+    schemaJson: options.classificationSchemaJson,
+    onProgress: scaleProgress(onProgress, 0, 35),
+    signal,
+    noCache,
+  });
+  const category = classification.classification;
+  
+  const { matched, reference = fallback } = lookupCategorySchema(category, schemaMap);
+  const resolved = await resolveSchemaReference(reference);
+  
+  if (onProgress) {
+    await onProgress({
+      progress: 40,
+      total: 100,
+      message: `Classified as ${category}; ${resolved.kind === 'none' ? 'no extraction configured' : 'extracting information'}`,
+    });
+  }
+  
+  let extractedData: Record<string, any> | null = null;
+  let validation: ExtractionValidationReport | null = null;
+  let extractionSavedTo: string | undefined;
+  let source = 'none';
+  
+  if (resolved.kind !== 'none') {
+    const extraction = await extractInformation({
+      filePath,
+      apiKey,
+      schema: resolved.kind === 'schema' ? resolved.schema : undefined,
+      schemaSource: resolved.kind === 'schema' ? resolved.source : undefined,
+      autoGenerateSchema: resolved.kind === 'auto',
+      coerceTypes,
+      onProgress: scaleProgress(onProgress, 40, 95),
+      signal,
+      noCache,
+    });
+    extractedData = extraction.extracted_data;
+    validation = extraction.metadata.validation;
+    extractionSavedTo = extraction.metadata.result_saved_to;
+    source = extraction.metadata.schema_used;
+  }
+  
+  // Skip writing results for a cancelled request
+  signal?.throwIfAborted();
+  
+  // Save the combined record
+  const outputDir = getOutputDirectory('document_processing');
+  await ensureDirectoryExists(outputDir);
+  const outputPath = path.join(outputDir, generateTimestampedFilename(filePath, 'processed'));
+  
+  const result: ProcessDocumentResult = {
+    file: path.basename(filePath),
+    classification: category,
+    extracted_data: extractedData,
+    validation,
+    schema: { matched, source },
+    metadata: {
+      classification_saved_to: classification.metadata.result_saved_to,
+      extraction_saved_to: extractionSavedTo,
+      result_saved_to: outputPath,
+    },
+  };
+  
+  await saveJsonToFile(result, outputPath, { indent: 2 });
+  
+  if (onProgress) {
+    await onProgress({ progress: 100, total: 100, message: 'Document processing complete' });
+  }
+  
+  return result;
+}
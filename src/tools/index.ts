@@ -1,4 +1,15 @@
 export * from './documentParser';
 export * from './informationExtractor';
 export * from './schemaGenerator';
-export * from './documentClassifier';
\ No newline at end of file
+export * from './documentClassifier';
+export * from './parseJobs';
+export * from './cacheManager';
+export * from './batchProcessor';
+export * from './documentPipeline';
+export * from './schemaLibrary';
+export * from './sampleSchemaGenerator';
+export * from './schemaEditor';
+export * from './tableExtractor';
+export * from './parsedDocumentQuery';
+export * from './documentChunker';
+export * from './registry';
\ No newline at end of file
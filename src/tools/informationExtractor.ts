@@ -1,34 +1,72 @@
 import path from 'path';
 import {
-  API_ENDPOINTS,
+  getApiEndpoints,
   makeApiRequest,
   validateExtractionFile,
   getOutputDirectory,
   generateTimestampedFilename,
   saveJsonToFile,
-  readJsonFile,
+  readSchemaFile,
+  toJsonSchemaPart,
+  parseJsonObjectContent,
+  findSavedOutput,
+  recordSavedOutput,
   ensureDirectoryExists,
   readFileAsBase64,
   getMimeType,
   parseSchemaJson,
+  parseSchemaSpec,
+  getNamedSchema,
+  validateExtractedData,
+  ExtractionValidationReport,
+  ProgressCallback,
+  reportQueueWait,
+  UpstageApiError,
+  ValidationError,
 } from '../utils';
 
 interface ExtractInformationOptions {
   filePath: string;
   apiKey: string;
+  /** Already resolved schema (the json_schema part), used before schemaJson and schemaPath */
+  schema?: Record<string, any>;
+  /** Where `schema` came from, reported as schema_used */
+  schemaSource?: string;
+  /** Name of a schema saved with save_schema */
+  schemaName?: string;
+  /** Compact field spec such as `total: number "Total amount"` */
+  schemaSpec?: string;
   schemaPath?: string;
   schemaJson?: string;
   autoGenerateSchema?: boolean;
-  onProgress?: (progress: { progress: number; total: number }) => Promise<void>;
+  /** Convert values such as "1,234.50" to the type declared in the schema */
+  coerceTypes?: boolean;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+  /** Bypass the result cache and always call the API */
+  noCache?: boolean;
+}
+
+export interface ExtractInformationResult {
+  extracted_data: Record<string, any>;
+  metadata: {
+    file: string;
+    result_saved_to: string;
+    schema_used: string;
+    /** Field-level check of extracted_data against the schema */
+    validation: ExtractionValidationReport;
+  };
 }
 
 async function generateSchema(
   filePath: string,
   apiKey: string,
-  onProgress?: (progress: { progress: number; total: number }) => Promise<void>
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+  noCache?: boolean
 ): Promise<any> {
   if (onProgress) {
-    await onProgress({ progress: 20, total: 100 });
+    await onProgress({ progress: 20, total: 100, message: 'Generating extraction schema' });
   }
   
   // Get file MIME type and encode to base64
@@ -54,50 +92,61 @@ async function generateSchema(
   };
   
   const result = await makeApiRequest(
-    API_ENDPOINTS.SCHEMA_GENERATION,
+    getApiEndpoints().SCHEMA_GENERATION,
     apiKey,
     {
       json: requestData,
+      signal,
+      onQueueWait: reportQueueWait(onProgress, 20, 40),
+      useCache: !noCache,
     },
     'Schema generation'
   );
   
   if (onProgress) {
-    await onProgress({ progress: 40, total: 100 });
+    await onProgress({ progress: 40, total: 100, message: 'Saving generated schema' });
   }
   
   // Extract schema from response (same as Python version)
   if (!result.choices || result.choices.length === 0) {
-    throw new Error('Invalid response from schema generation API');
+    throw new UpstageApiError('Invalid response from schema generation API', { code: 'UPSTAGE_INVALID_RESPONSE' });
   }
   
   const content = result.choices[0].message.content;
-  const schema = JSON.parse(content);
+  const schema = parseJsonObjectContent(content, 'Schema generation');
   
   if (!schema.json_schema) {
-    throw new Error('Invalid schema format returned');
+    throw new UpstageApiError('Invalid schema format returned', { code: 'UPSTAGE_INVALID_RESPONSE' });
   }
   
-  // Save generated schema
-  const schemaDir = getOutputDirectory('information_extraction/schemas');
-  await ensureDirectoryExists(schemaDir);
-  
-  const schemaFilename = generateTimestampedFilename(filePath, 'schema');
-  const schemaPath = path.join(schemaDir, schemaFilename);
+  // Skip writing results for a cancelled request
+  signal?.throwIfAborted();
   
-  await saveJsonToFile(schema.json_schema, schemaPath, { indent: 2 });
+  // Save generated schema, unless a cached result was already saved
+  if (!(await findSavedOutput(result, 'extraction_schema'))) {
+    const schemaDir = getOutputDirectory('information_extraction/schemas');
+    await ensureDirectoryExists(schemaDir);
+    const schemaPath = path.join(schemaDir, generateTimestampedFilename(filePath, 'schema'));
+    await saveJsonToFile(schema.json_schema, schemaPath, { indent: 2 });
+    await recordSavedOutput(result, 'extraction_schema', schemaPath);
+  }
   
   return schema.json_schema;
 }
 
-export async function extractInformation(options: ExtractInformationOptions): Promise<string> {
+export async function extractInformation(options: ExtractInformationOptions): Promise<ExtractInformationResult> {
   const {
     filePath,
     apiKey,
+    schemaName,
+    schemaSpec,
     schemaPath,
     schemaJson,
     autoGenerateSchema = true,
+    coerceTypes = false,
     onProgress,
+    signal,
+    noCache,
   } = options;
   
   // Validate input file
@@ -105,41 +154,79 @@ export async function extractInformation(options: ExtractInformationOptions): Pr
   
   // Report initial progress
   if (onProgress) {
-    await onProgress({ progress: 10, total: 100 });
+    await onProgress({ progress: 10, total: 100, message: 'Validated document' });
   }
   
-  let schema: any = null;
+  let schema: any = options.schema || null;
+  let schemaSource = options.schemaSource;
   
   // Determine schema source (same priority as Python version)
-  if (schemaJson) {
+  if (schema) {
+    if (onProgress) {
+      await onProgress({ progress: 20, total: 100, message: 'Using provided extraction schema' });
+    }
+  } else if (schemaName) {
+    // Load the latest version from the schema library
+    const named = await getNamedSchema(schemaName);
+    schema = named.schema;
+    schemaSource = `library:${named.name}@${named.version}`;
+    if (onProgress) {
+      await onProgress({ progress: 20, total: 100, message: `Loaded schema ${named.name} (version ${named.version})` });
+    }
+  } else if (schemaSpec) {
+    // Expand the compact field spec
+    try {
+      schema = parseSchemaSpec(schemaSpec).json_schema;
+    } catch (error) {
+      throw new ValidationError(`Invalid schema spec: ${error instanceof Error ? error.message : error}`, {
+        code: 'INVALID_SCHEMA',
+        hint: 'Write one field per line, e.g. total_amount: number "Total amount"',
+      });
+    }
+    schemaSource = schemaSource || 'schema_spec';
+    if (onProgress) {
+      await onProgress({ progress: 20, total: 100, message: 'Expanded extraction schema spec' });
+    }
+  } else if (schemaJson) {
     // Parse and validate schema from JSON string
     try {
       schema = parseSchemaJson(schemaJson).json_schema;
     } catch (error) {
-      throw new Error(`Invalid schema format: ${error instanceof Error ? error.message : error}`);
+      throw new ValidationError(`Invalid schema format: ${error instanceof Error ? error.message : error}`, {
+        code: 'INVALID_SCHEMA',
+        hint: 'Use generate_schema to get a valid schema, or see the schema guide in the README',
+      });
     }
     if (onProgress) {
-      await onProgress({ progress: 20, total: 100 });
+      await onProgress({ progress: 20, total: 100, message: 'Loaded extraction schema' });
     }
   } else if (schemaPath) {
     // Load schema from file
-    schema = await readJsonFile(schemaPath);
+    const loaded = await readSchemaFile(schemaPath);
+    try {
+      schema = toJsonSchemaPart(loaded);
+    } catch (error) {
+      throw new ValidationError(`Invalid schema in ${schemaPath}: ${error instanceof Error ? error.message : error}`, {
+        code: 'INVALID_SCHEMA',
+        hint: 'The file must contain a JSON schema, such as one saved by generate_schema',
+      });
+    }
     if (onProgress) {
-      await onProgress({ progress: 20, total: 100 });
+      await onProgress({ progress: 20, total: 100, message: 'Loaded extraction schema from file' });
     }
   } else if (autoGenerateSchema) {
     // Generate schema automatically
-    schema = await generateSchema(filePath, apiKey, onProgress);
+    schema = await generateSchema(filePath, apiKey, onProgress, signal, noCache);
   }
   
   // If we don't have a schema at this point, return an error
   if (!schema) {
-    throw new Error('No schema provided or generated. Please provide a schema or enable auto_generate_schema.');
+    throw new ValidationError('No schema provided or generated. Please provide a schema or enable auto_generate_schema.');
   }
   
   // Report extraction progress
   if (onProgress) {
-    await onProgress({ progress: 60, total: 100 });
+    await onProgress({ progress: 60, total: 100, message: 'Encoding document for extraction' });
   }
   
   // Get file MIME type and encode to base64
@@ -168,66 +255,91 @@ export async function extractInformation(options: ExtractInformationOptions): Pr
     }
   };
   
+  if (onProgress) {
+    await onProgress({ progress: 70, total: 100, message: 'Waiting for Upstage information extraction' });
+  }
+  
   // Make extraction request
   const result = await makeApiRequest(
-    API_ENDPOINTS.INFORMATION_EXTRACTION,
+    getApiEndpoints().INFORMATION_EXTRACTION,
     apiKey,
     {
       json: requestData,
+      signal,
+      onQueueWait: reportQueueWait(onProgress, 70, 90),
+      useCache: !noCache,
     },
     'Information extraction'
   );
   
   // Extract content from response (same as Python version)
   if (!result.choices || result.choices.length === 0) {
-    throw new Error('Invalid response from information extraction API');
+    throw new UpstageApiError('Invalid response from information extraction API', { code: 'UPSTAGE_INVALID_RESPONSE' });
   }
   
   const content = result.choices[0].message.content;
-  const extractedData = JSON.parse(content);
+  
+  // The model output is not guaranteed to follow the schema
+  const { data: extractedData, report: validation } = validateExtractedData(parseJsonObjectContent(content, 'Information extraction'), schema, {
+    coerce: coerceTypes,
+  });
   
   // Report saving progress
   if (onProgress) {
-    await onProgress({ progress: 90, total: 100 });
+    await onProgress({ progress: 90, total: 100, message: 'Saving extraction result' });
   }
   
-  // Save results
-  const outputDir = getOutputDirectory('information_extraction');
-  await ensureDirectoryExists(outputDir);
+  // Skip writing results for a cancelled request
+  signal?.throwIfAborted();
   
-  const outputFilename = generateTimestampedFilename(filePath, 'extraction');
-  const outputPath = path.join(outputDir, outputFilename);
+  // Reuse the file saved for a cached result; the schema label and coercion also shape the file
+  const schemaUsed = schemaSource || schemaPath || 'auto-generated';
+  const outputKind = `extraction:${schemaUsed}:${coerceTypes}`;
+  const savedPath = await findSavedOutput(result, outputKind);
+  
+  const outputDir = getOutputDirectory('information_extraction');
+  const outputPath = savedPath || path.join(outputDir, generateTimestampedFilename(filePath, 'extraction'));
   
   // Save results with metadata (same format as Python version)
-  const response = {
+  const response: ExtractInformationResult = {
     extracted_data: extractedData,
     metadata: {
       file: path.basename(filePath),
       result_saved_to: outputPath,
-      schema_used: schemaPath || 'auto-generated'
+      schema_used: schemaUsed,
+      validation
     }
   };
   
-  await saveJsonToFile(response, outputPath, { indent: 2 });
+  if (!savedPath) {
+    await ensureDirectoryExists(outputDir);
+    await saveJsonToFile(response, outputPath, { indent: 2 });
+    await recordSavedOutput(result, outputKind, outputPath);
+  }
   
   // Report completion
   if (onProgress) {
-    await onProgress({ progress: 100, total: 100 });
+    await onProgress({ progress: 100, total: 100, message: 'Information extraction complete' });
   }
   
-  return JSON.stringify(response, null, 2);
+  return response;
 }
 
 export async function extractInformationFromFile(
   filePath: string,
   apiKey: string,
   options: {
+    schemaName?: string;
+    schemaSpec?: string;
     schemaPath?: string;
     schemaJson?: string;
     autoGenerateSchema?: boolean;
-    onProgress?: (progress: { progress: number; total: number }) => Promise<void>;
+    coerceTypes?: boolean;
+    onProgress?: ProgressCallback;
+    signal?: AbortSignal;
+    noCache?: boolean;
   } = {}
-): Promise<string> {
+): Promise<ExtractInformationResult> {
   return extractInformation({
     filePath,
     apiKey,
@@ -0,0 +1,398 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import {
+  getApiEndpoints,
+  makeApiRequest,
+  downloadJson,
+  validateDocumentFile,
+  getOutputDirectory,
+  getJobsDirectory,
+  generateTimestampedFilename,
+  saveJsonToFile,
+  readJsonFile,
+  ensureDirectoryExists,
+  ProgressCallback,
+  reportQueueWait,
+  ToolError,
+  UpstageApiError,
+  ValidationError,
+} from '../utils';
+import { DocumentParseSettings, buildParseRequestData } from './documentParser';
+
+interface SubmitParseJobOptions extends DocumentParseSettings {
+  filePath: string;
+  apiKey: string;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+interface ParseJobOptions {
+  jobId: string;
+  apiKey: string;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+interface ParseJobBatch {
+  id: number;
+  status: string;
+  start_page: number;
+  end_page: number;
+  download_url?: string;
+  failure_message?: string;
+}
+
+/**
+ * Job state persisted under ~/.mcp-upstage/jobs so jobs survive a restart
+ */
+interface ParseJobState {
+  job_id: string;
+  /** Hash of the API key that submitted the job; only that key can look it up */
+  owner: string;
+  file: string;
+  settings: DocumentParseSettings;
+  status: string;
+  total_pages: number;
+  completed_pages: number;
+  failure_message?: string;
+  submitted_at: string;
+  updated_at: string;
+  result_saved_to?: string;
+}
+
+export interface SubmitParseJobResult {
+  job_id: string;
+  status: string;
+  file: string;
+  submitted_at: string;
+}
+
+export interface ParseJobStatusResult {
+  job_id: string;
+  status: string;
+  file: string;
+  total_pages: number;
+  completed_pages: number;
+  batches: { start_page: number; end_page: number; status: string }[];
+  submitted_at: string;
+  updated_at: string;
+  failure_message?: string;
+  result_saved_to?: string;
+}
+
+export interface ParseJobResult {
+  job_id: string;
+  elements: Record<string, any>[];
+  content: Record<string, any>;
+  saved_to: string;
+}
+
+function getJobStatePath(jobId: string): string {
+  return path.join(getJobsDirectory(), `${path.basename(jobId)}.json`);
+}
+
+function getBatchCachePath(jobId: string, batchId: number): string {
+  return path.join(getJobsDirectory(), path.basename(jobId), `batch_${batchId}.json`);
+}
+
+function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+async function loadJobState(jobId: string, apiKey: string): Promise<ParseJobState> {
+  let state: ParseJobState | undefined;
+  try {
+    state = await readJsonFile(getJobStatePath(jobId));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  
+  // Jobs of other API keys are reported as unknown so their IDs reveal nothing
+  if (!state || state.owner !== hashApiKey(apiKey)) {
+    throw new ValidationError(`Unknown parse job: ${jobId}`, {
+      code: 'NOT_FOUND',
+      hint: 'Use the job_id returned by submit_parse_job with the same Upstage API key',
+    });
+  }
+  return state;
+}
+
+async function saveJobState(state: ParseJobState): Promise<void> {
+  await ensureDirectoryExists(getJobsDirectory());
+  await saveJsonToFile(state, getJobStatePath(state.job_id), { indent: 2 });
+}
+
+async function fetchJobStatus(
+  jobId: string,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<{ state: ParseJobState; batches: ParseJobBatch[] }> {
+  const state = await loadJobState(jobId, apiKey);
+  
+  const result = await makeApiRequest(
+    `${getApiEndpoints().DOCUMENT_DIGITIZATION_REQUESTS}/${encodeURIComponent(jobId)}`,
+    apiKey,
+    {
+      method: 'GET',
+      signal,
+    },
+    'Parse job status'
+  );
+  
+  const updatedState: ParseJobState = {
+    ...state,
+    status: result.status,
+    total_pages: result.total_pages ?? state.total_pages,
+    completed_pages: result.completed_pages ?? state.completed_pages,
+    failure_message: result.failure_message || undefined,
+    updated_at: new Date().toISOString(),
+  };
+  await saveJobState(updatedState);
+  
+  return { state: updatedState, batches: result.batches || [] };
+}
+
+/**
+ * Merge per-batch Document Parse results into a single response
+ */
+function mergeBatchResults(batches: { batch: ParseJobBatch; result: any }[]): any {
+  const merged = {
+    api: batches[0]?.result.api,
+    model: batches[0]?.result.model,
+    content: {} as Record<string, string>,
+    elements: [] as Record<string, any>[],
+    usage: { pages: 0 },
+  };
+  
+  for (const { batch, result } of batches) {
+    for (const [format, value] of Object.entries(result.content || {})) {
+      if (typeof value === 'string') {
+        merged.content[format] = merged.content[format] ? `${merged.content[format]}\n${value}` : value;
+      }
+    }
+    
+    // Batch results may number pages from 1; shift them to document page numbers
+    const elements: Record<string, any>[] = result.elements || [];
+    const maxPage = Math.max(0, ...elements.map((element) => element.page || 0));
+    const pageOffset = maxPage < batch.start_page ? batch.start_page - 1 : 0;
+    
+    for (const element of elements) {
+      merged.elements.push({
+        ...element,
+        id: merged.elements.length,
+        page: typeof element.page === 'number' ? element.page + pageOffset : element.page,
+      });
+    }
+    
+    merged.usage.pages += result.usage?.pages || 0;
+  }
+  
+  return merged;
+}
+
+export async function submitParseJob(options: SubmitParseJobOptions): Promise<SubmitParseJobResult> {
+  const { filePath, apiKey, onProgress, signal } = options;
+  
+  // Validate input file
+  await validateDocumentFile(filePath);
+  
+  if (onProgress) {
+    await onProgress({ progress: 10, total: 100, message: 'Validated document' });
+  }
+  
+  const requestData = buildParseRequestData(options);
+  
+  if (onProgress) {
+    await onProgress({ progress: 30, total: 100, message: 'Uploading document to Upstage async Document Parse' });
+  }
+  
+  const result = await makeApiRequest(
+    getApiEndpoints().DOCUMENT_DIGITIZATION_ASYNC,
+    apiKey,
+    {
+      files: { document: filePath },
+      data: requestData,
+      signal,
+      onQueueWait: reportQueueWait(onProgress, 30, 100),
+    },
+    'Parse job submission'
+  );
+  
+  if (!result.request_id) {
+    throw new UpstageApiError('Invalid response from async document parsing API', { code: 'UPSTAGE_INVALID_RESPONSE' });
+  }
+  
+  // Persist job state so it can be resumed after a restart
+  const now = new Date().toISOString();
+  const state: ParseJobState = {
+    job_id: result.request_id,
+    owner: hashApiKey(apiKey),
+    file: path.resolve(filePath),
+    settings: {
+      outputFormats: options.outputFormats,
+      ocr: options.ocr,
+      base64Encoding: options.base64Encoding,
+      coordinates: options.coordinates,
+      chartRecognition: options.chartRecognition,
+      mergeMultipageTables: options.mergeMultipageTables,
+      model: options.model,
+    },
+    status: 'submitted',
+    total_pages: 0,
+    completed_pages: 0,
+    submitted_at: now,
+    updated_at: now,
+  };
+  await saveJobState(state);
+  
+  if (onProgress) {
+    await onProgress({ progress: 100, total: 100, message: 'Parse job submitted' });
+  }
+  
+  return {
+    job_id: state.job_id,
+    status: state.status,
+    file: path.basename(filePath),
+    submitted_at: state.submitted_at,
+  };
+}
+
+export async function getParseJobStatus(options: ParseJobOptions): Promise<ParseJobStatusResult> {
+  const { jobId, apiKey, onProgress, signal } = options;
+  
+  const { state, batches } = await fetchJobStatus(jobId, apiKey, signal);
+  
+  // Report page-level progress
+  if (onProgress && state.total_pages > 0) {
+    await onProgress({
+      progress: state.completed_pages,
+      total: state.total_pages,
+      message: `${state.completed_pages}/${state.total_pages} pages parsed (${state.status})`,
+    });
+  }
+  
+  return {
+    job_id: state.job_id,
+    status: state.status,
+    file: path.basename(state.file),
+    total_pages: state.total_pages,
+    completed_pages: state.completed_pages,
+    batches: batches.map((batch) => ({
+      start_page: batch.start_page,
+      end_page: batch.end_page,
+      status: batch.status,
+    })),
+    submitted_at: state.submitted_at,
+    updated_at: state.updated_at,
+    ...(state.failure_message && { failure_message: state.failure_message }),
+    ...(state.result_saved_to && { result_saved_to: state.result_saved_to }),
+  };
+}
+
+export async function getParseJobResult(options: ParseJobOptions): Promise<ParseJobResult> {
+  const { jobId, apiKey, onProgress, signal } = options;
+  
+  // Reuse a previously merged result
+  const savedState = await loadJobState(jobId, apiKey);
+  if (savedState.result_saved_to) {
+    try {
+      const saved = await readJsonFile(savedState.result_saved_to);
+      return {
+        job_id: jobId,
+        elements: saved.elements || [],
+        content: saved.content || {},
+        saved_to: savedState.result_saved_to,
+      };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+  
+  const { state, batches } = await fetchJobStatus(jobId, apiKey, signal);
+  
+  if (state.status !== 'completed') {
+    const detail = state.failure_message ? `: ${state.failure_message}` : '';
+    throw new ToolError(
+      `Parse job ${jobId} is ${state.status} (${state.completed_pages}/${state.total_pages} pages)${detail}`,
+      state.status === 'failed' ? 'UPSTAGE_SERVER_ERROR' : 'JOB_NOT_READY',
+      state.status === 'failed'
+        ? { hint: 'Submit the document again with submit_parse_job' }
+        : { hint: 'Poll get_job_status until the status is completed', retryable: true }
+    );
+  }
+  
+  const failedBatches = batches.filter((batch) => batch.status !== 'completed');
+  if (failedBatches.length > 0) {
+    const ranges = failedBatches.map((batch) => `${batch.start_page}-${batch.end_page}`).join(', ');
+    throw new ToolError(`Parse job ${jobId} has incomplete batches for pages ${ranges}`, 'JOB_NOT_READY', {
+      hint: 'Poll get_job_status until every batch is completed',
+      retryable: true,
+    });
+  }
+  
+  // Download each batch, reusing batches fetched by an earlier attempt
+  const sortedBatches = [...batches].sort((a, b) => a.start_page - b.start_page);
+  const batchResults: { batch: ParseJobBatch; result: any }[] = [];
+  
+  for (const [index, batch] of sortedBatches.entries()) {
+    const cachePath = getBatchCachePath(jobId, batch.id);
+    let result: any;
+    
+    try {
+      result = await readJsonFile(cachePath);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      if (!batch.download_url) {
+        throw new UpstageApiError(`Parse job ${jobId} batch ${batch.id} has no download URL`, { code: 'UPSTAGE_INVALID_RESPONSE' });
+      }
+      result = await downloadJson(batch.download_url, signal);
+      await ensureDirectoryExists(path.dirname(cachePath));
+      await saveJsonToFile(result, cachePath, { indent: 2 });
+    }
+    
+    batchResults.push({ batch, result });
+    
+    if (onProgress) {
+      await onProgress({
+        progress: index + 1,
+        total: sortedBatches.length + 1,
+        message: `Downloaded pages ${batch.start_page}-${batch.end_page}`,
+      });
+    }
+  }
+  
+  // Skip writing results for a cancelled request
+  signal?.throwIfAborted();
+  
+  const merged = mergeBatchResults(batchResults);
+  
+  // Save results
+  const outputDir = getOutputDirectory('document_parsing');
+  await ensureDirectoryExists(outputDir);
+  
+  const outputPath = path.join(outputDir, generateTimestampedFilename(state.file));
+  await saveJsonToFile(merged, outputPath, { indent: 2 });
+  
+  await saveJobState({ ...state, result_saved_to: outputPath });
+  
+  // Downloaded batches are no longer needed once merged
+  await fs.rm(path.join(getJobsDirectory(), path.basename(jobId)), { recursive: true, force: true });
+  
+  if (onProgress) {
+    await onProgress({ progress: sortedBatches.length + 1, total: sortedBatches.length + 1, message: 'Parse job result saved' });
+  }
+  
+  return {
+    job_id: jobId,
+    elements: merged.elements,
+    content: merged.content,
+    saved_to: outputPath,
+  };
+}
@@ -0,0 +1,96 @@
+import {
+  readSavedParseResult,
+  elementContent,
+  ElementFormat,
+  ValidationError,
+} from '../utils';
+
+interface QueryParsedDocumentOptions {
+  /** Saved parse result as a file path or upstage://outputs/ URI */
+  parseResult: string;
+  /** Element categories to keep; 'heading' matches every heading level */
+  categories?: string[];
+  pageFrom?: number;
+  pageTo?: number;
+  /** Keep elements whose text contains this, ignoring case */
+  text?: string;
+  format?: ElementFormat;
+  /** Matching elements to skip, for paging through large documents */
+  offset?: number;
+  limit?: number;
+}
+
+export interface QueriedElement {
+  id?: number;
+  category: string;
+  page?: number;
+  content: string;
+}
+
+export interface QueryParsedDocumentResult {
+  source: string;
+  parse_saved_to: string;
+  format: ElementFormat;
+  /** Elements in the parse result */
+  total_elements: number;
+  /** Elements matching the filters */
+  matched: number;
+  elements: QueriedElement[];
+  /** Content of the returned elements joined in document order */
+  content: string;
+  /** Offset of the next page of matches, when more remain */
+  next_offset?: number;
+}
+
+function matchesCategory(category: string, categories: string[]): boolean {
+  return categories.some((wanted) => wanted === category || (wanted === 'heading' && /^heading\d*$/.test(category)));
+}
+
+export async function queryParsedDocument(options: QueryParsedDocumentOptions): Promise<QueryParsedDocumentResult> {
+  const { parseResult, categories, pageFrom, pageTo, text, format = 'markdown', offset = 0, limit = 50 } = options;
+  
+  if (pageFrom !== undefined && pageTo !== undefined && pageFrom > pageTo) {
+    throw new ValidationError(`page_from (${pageFrom}) is after page_to (${pageTo})`);
+  }
+  
+  const parsed = await readSavedParseResult(parseResult);
+  const needle = text?.toLowerCase();
+  
+  const matching = parsed.elements.filter((element) => {
+    if (categories && categories.length > 0 && !matchesCategory(element.category, categories)) {
+      return false;
+    }
+    if (pageFrom !== undefined && !(element.page >= pageFrom)) {
+      return false;
+    }
+    if (pageTo !== undefined && !(element.page <= pageTo)) {
+      return false;
+    }
+    return !needle || elementContent(element, 'text').toLowerCase().includes(needle);
+  });
+  
+  const elements = matching.slice(offset, offset + limit).map((element) => ({
+    id: element.id,
+    category: element.category,
+    page: element.page,
+    content: elementContent(element, format),
+  }));
+  
+  const result: QueryParsedDocumentResult = {
+    source: parseResult,
+    parse_saved_to: parsed.path,
+    format,
+    total_elements: parsed.elements.length,
+    matched: matching.length,
+    elements,
+    content: elements
+      .map((element) => element.content)
+      .filter(Boolean)
+      .join(format === 'html' ? '\n' : '\n\n'),
+  };
+  if (offset + limit < matching.length) {
+    result.next_offset = offset + limit;
+  }
+  
+  return result;
+}
@@ -0,0 +1,1274 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { parseDocument, DocumentParseSettings } from './documentParser';
+import { submitParseJob, getParseJobStatus, getParseJobResult } from './parseJobs';
+import { manageCache } from './cacheManager';
+import { extractInformationFromFile } from './informationExtractor';
+import { generateSchema } from './schemaGenerator';
+import { generateSchemaFromSamples } from './sampleSchemaGenerator';
+import { classifyDocumentFromFile } from './documentClassifier';
+import { batchParse, batchExtract, batchClassify } from './batchProcessor';
+import { processDocument } from './documentPipeline';
+import { saveSchema, getSchema, listSchemas, deleteSchema } from './schemaLibrary';
+import { editExtractionSchema } from './schemaEditor';
+import { extractTables } from './tableExtractor';
+import { queryParsedDocument } from './parsedDocumentQuery';
+import { chunkDocument } from './documentChunker';
+import {
+  ProgressCallback,
+  DOCUMENT_PARSE_OPTIONS,
+  DOCUMENT_PARSE_DEFAULTS,
+  FILE_LIMITS,
+  BATCH_LIMITS,
+  CHUNK_DEFAULTS,
+} from '../utils';
+
+/**
+ * Per-call context handed to every tool handler
+ */
+export interface ToolContext {
+  /**
+   * Upstage API key for this call; throws MISSING_API_KEY when there is none, so call it
+   * only when the handler actually calls Upstage
+   */
+  getApiKey: () => string;
+  /** Present only when the client supplied a progressToken */
+  onProgress?: ProgressCallback;
+  /** Aborted when the client sends notifications/cancelled for this request */
+  signal?: AbortSignal;
+}
+
+/**
+ * A tool declared once and served by both the stdio and HTTP transports
+ */
+export interface ToolDefinition<
+  T extends z.ZodTypeAny = z.ZodTypeAny,
+  O extends z.ZodTypeAny = z.ZodTypeAny,
+> {
+  name: string;
+  description: string;
+  inputSchema: T;
+  /** Shape of the structuredContent returned by the handler */
+  outputSchema: O;
+  handler: (args: z.infer<T>, context: ToolContext) => Promise<z.infer<O>>;
+}
+
+/**
+ * Helper that keeps the handler's argument type tied to its input schema
+ */
+function defineTool<T extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+  definition: ToolDefinition<T, O>
+): ToolDefinition<T, O> {
+  return definition;
+}
+
+// Define tool schemas
+export const ParseDocumentSchema = z.object({
+  file_path: z.string().describe('Path to the document file to be processed'),
+  output_formats: z
+    .array(z.enum(DOCUMENT_PARSE_OPTIONS.OUTPUT_FORMATS))
+    .optional()
+    .describe("Output formats (e.g., 'html', 'text', 'markdown')"),
+  ocr: z
+    .enum(DOCUMENT_PARSE_OPTIONS.OCR_MODES)
+    .default(DOCUMENT_PARSE_DEFAULTS.OCR)
+    .describe("OCR mode: 'force' always runs OCR, 'auto' only on images and scanned pages"),
+  base64_encoding: z
+    .array(z.enum(DOCUMENT_PARSE_OPTIONS.ELEMENT_CATEGORIES))
+    .default([...DOCUMENT_PARSE_DEFAULTS.BASE64_ENCODING])
+    .describe('Element categories whose cropped images are returned as base64'),
+  coordinates: z
+    .boolean()
+    .optional()
+    .describe('Return bounding box coordinates for each element (API default: true)'),
+  chart_recognition: z
+    .boolean()
+    .optional()
+    .describe('Convert charts into tables (API default: true)'),
+  merge_multipage_tables: z
+    .boolean()
+    .optional()
+    .describe('Merge tables that continue across pages (API default: false)'),
+  model: z
+    .enum(DOCUMENT_PARSE_OPTIONS.MODELS)
+    .default(DOCUMENT_PARSE_DEFAULTS.MODEL)
+    .describe("Document Parse model version ('document-parse' is the latest stable alias)"),
+  no_cache: z
+    .boolean()
+    .default(false)
+    .describe('Bypass the result cache and always call the Upstage API'),
+});
+
+export const ExtractInformationSchema = z.object({
+  file_path: z.string().describe('Path to the document file to process'),
+  schema_name: z
+    .string()
+    .optional()
+    .describe('Name of a schema saved with save_schema (optional)'),
+  schema_spec: z
+    .string()
+    .optional()
+    .describe('Compact field spec with one field per line, e.g. invoice_number: string "Invoice number" (optional)'),
+  schema_path: z
+    .string()
+    .optional()
+    .describe('Path to JSON file containing the extraction schema (optional)'),
+  schema_json: z
+    .string()
+    .optional()
+    .describe('JSON string containing the extraction schema (optional)'),
+  auto_generate_schema: z
+    .boolean()
+    .default(true)
+    .describe('Whether to automatically generate a schema'),
+  coerce_types: z
+    .boolean()
+    .default(false)
+    .describe('Convert values such as "1,234.50" or "yes" to the type declared in the schema'),
+  no_cache: z
+    .boolean()
+    .default(false)
+    .describe('Bypass the result cache and always call the Upstage API'),
+});
+
+export const GenerateSchemaSchema = z.object({
+  file_path: z.string().describe('Path to the document file to analyze for schema generation'),
+  no_cache: z
+    .boolean()
+    .default(false)
+    .describe('Bypass the result cache and always call the Upstage API'),
+});
+
+export const GenerateSchemaFromSamplesSchema = z.object({
+  file_paths: z
+    .array(z.string())
+    .min(1)
+    .max(BATCH_LIMITS.MAX_SCHEMA_SAMPLES)
+    .describe('Sample documents of the same kind, e.g. invoices from different vendors'),
+  name: z.string().optional().describe('Name of the merged schema (optional)'),
+  min_coverage: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0)
+    .describe('Drop fields found in fewer than this fraction of samples, e.g. 0.5 (default: keep all)'),
+  save_as: z
+    .string()
+    .optional()
+    .describe('Also save the merged schema in the schema library under this name (optional)'),
+  no_cache: z
+    .boolean()
+    .default(false)
+    .describe('Bypass the result cache and always call the Upstage API'),
+});
+
+export const SubmitParseJobSchema = ParseDocumentSchema.omit({ no_cache: true }).extend({
+  file_path: z.string().describe('Path to the document file to parse asynchronously'),
+});
+
+export const ParseJobSchema = z.object({
+  job_id: z.string().describe('Job id returned by submit_parse_job'),
+});
+
+export const ExtractTablesSchema = z.object({
+  file_path: z.string().optional().describe('Path to the document to parse'),
+  parse_result: z
+    .string()
+    .optional()
+    .describe('Saved parse result to reuse instead: the saved_to path of parse_document or get_job_result, or its upstage://outputs/ URI'),
+  ocr: ParseDocumentSchema.shape.ocr,
+  merge_multipage_tables: ParseDocumentSchema.shape.merge_multipage_tables,
+  model: ParseDocumentSchema.shape.model,
+  no_cache: ParseDocumentSchema.shape.no_cache,
+});
+
+export const QueryParsedDocumentSchema = z.object({
+  parse_result: z
+    .string()
+    .describe('Saved parse result: the saved_to path of parse_document or get_job_result, or its upstage://outputs/ URI'),
+  categories: z
+    .array(z.enum([...DOCUMENT_PARSE_OPTIONS.ELEMENT_CATEGORIES, 'heading']))
+    .optional()
+    .describe("Element categories to return; 'heading' matches every heading level (default: all)"),
+  page_from: z.number().int().min(1).optional().describe('First page to include'),
+  page_to: z.number().int().min(1).optional().describe('Last page to include'),
+  text: z.string().optional().describe('Only elements whose text contains this, ignoring case'),
+  format: z
+    .enum(DOCUMENT_PARSE_OPTIONS.OUTPUT_FORMATS)
+    .default('markdown')
+    .describe('Format of the returned element content'),
+  offset: z.number().int().min(0).default(0).describe('Matching elements to skip'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of elements to return'),
+});
+
+export const ChunkDocumentSchema = ExtractTablesSchema.extend({
+  max_size: z
+    .number()
+    .int()
+    .min(50)
+    .optional()
+    .describe(`Maximum chunk size (default: ${CHUNK_DEFAULTS.MAX_TOKENS} tokens or ${CHUNK_DEFAULTS.MAX_CHARS} chars)`),
+  overlap: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      `Text shared with the previous chunk (default: ${CHUNK_DEFAULTS.OVERLAP_TOKENS} tokens or ${CHUNK_DEFAULTS.OVERLAP_CHARS} chars)`
+    ),
+  unit: z
+    .enum(['tokens', 'chars'])
+    .default('tokens')
+    .describe('Unit of max_size and overlap; tokens are estimated at four characters each'),
+  format: z
+    .enum(DOCUMENT_PARSE_OPTIONS.OUTPUT_FORMATS)
+    .default('markdown')
+    .describe('Format of the chunk content'),
+});
+
+export const ClassifyDocumentSchema = z.object({
+  file_path: z.string().describe('Path to the document file to classify'),
+  schema_path: z
+    .string()
+    .optional()
+    .describe('Path to JSON file containing custom classification schema (optional)'),
+  schema_json: z
+    .string()
+    .optional()
+    .describe('JSON string containing custom classification schema (optional)'),
+  no_cache: z
+    .boolean()
+    .default(false)
+    .describe('Bypass the result cache and always call the Upstage API'),
+});
+
+export const ManageCacheSchema = z.object({
+  action: z
+    .enum(['inspect', 'clear'])
+    .default('inspect')
+    .describe("'inspect' lists cached results, 'clear' removes them"),
+  key: z
+    .string()
+    .optional()
+    .describe('Limit the action to a single cache entry (optional)'),
+});
+
+const BatchInputSchema = z.object({
+  directory: z.string().optional().describe('Directory whose documents should be processed'),
+  recursive: z.boolean().default(false).describe('Include documents in subdirectories of directory'),
+  pattern: z
+    .string()
+    .optional()
+    .describe('Glob pattern matching the documents, e.g. /data/invoices/**/*.pdf'),
+  file_paths: z.array(z.string()).optional().describe('Explicit list of document paths'),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(BATCH_LIMITS.MAX_CONCURRENCY)
+    .default(BATCH_LIMITS.DEFAULT_CONCURRENCY)
+    .describe('Number of documents processed at the same time'),
+  no_cache: z
+    .boolean()
+    .default(false)
+    .describe('Bypass the result cache and always call the Upstage API'),
+});
+
+export const BatchParseSchema = BatchInputSchema.merge(
+  ParseDocumentSchema.omit({ file_path: true, no_cache: true })
+);
+
+export const BatchExtractSchema = BatchInputSchema.merge(
+  ExtractInformationSchema.omit({ file_path: true, no_cache: true })
+);
+
+export const BatchClassifySchema = BatchInputSchema.merge(
+  ClassifyDocumentSchema.omit({ file_path: true, no_cache: true })
+);
+
+export const ProcessDocumentSchema = z.object({
+  file_path: z.string().describe('Path to the document file to classify and extract'),
+  schema_path: z
+    .string()
+    .optional()
+    .describe('Path to JSON file containing custom classification categories (optional)'),
+  schema_json: z
+    .string()
+    .optional()
+    .describe('JSON string containing custom classification categories (optional)'),
+  schema_map: z
+    .record(z.union([z.string(), z.record(z.any())]))
+    .optional()
+    .describe(
+      "Extraction schema per category: 'builtin:<name>', 'auto', 'none', a saved schema name, a schema file path or an inline schema. '*' matches any category without its own entry and takes precedence over the config file and built-in schemas"
+    ),
+  fallback: z
+    .enum(['auto', 'none'])
+    .default('auto')
+    .describe("For categories without a schema: 'auto' generates one, 'none' skips extraction"),
+  coerce_types: z
+    .boolean()
+    .default(false)
+    .describe('Convert values such as "1,234.50" or "yes" to the type declared in the schema'),
+  no_cache: z
+    .boolean()
+    .default(false)
+    .describe('Bypass the result cache and always call the Upstage API'),
+});
+
+const SchemaNameSchema = z.string().describe('Schema name: letters, digits, "_" or "-"');
+
+export const SaveSchemaSchema = z.object({
+  name: SchemaNameSchema,
+  schema_json: z
+    .string()
+    .optional()
+    .describe('JSON string containing the extraction schema'),
+  schema_spec: z
+    .string()
+    .optional()
+    .describe('Compact field spec as accepted by extract_information'),
+  schema_path: z
+    .string()
+    .optional()
+    .describe('Path to JSON file containing the extraction schema, e.g. one written by generate_schema'),
+  description: z.string().optional().describe('What the schema is for (optional)'),
+  note: z.string().optional().describe('Note describing this version (optional)'),
+});
+
+export const GetSchemaSchema = z.object({
+  name: SchemaNameSchema,
+  version: z.number().int().min(1).optional().describe('Version to fetch; the latest when omitted'),
+});
+
+export const ListSchemasSchema = z.object({});
+
+export const DeleteSchemaSchema = z.object({
+  name: SchemaNameSchema,
+});
+
+const FieldPathSchema = z.string().describe('Field path, e.g. total_amount, vendor.name or items[].quantity');
+
+const FieldTypeSchema = z.enum(['string', 'number', 'integer', 'boolean', 'object', 'array']);
+
+const SchemaEditOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('add'),
+    path: FieldPathSchema,
+    type: FieldTypeSchema,
+    description: z.string().optional(),
+    items_type: FieldTypeSchema.optional().describe('Item type when type is array (default string)'),
+  }),
+  z.object({ op: z.literal('remove'), path: FieldPathSchema }),
+  z.object({ op: z.literal('rename'), path: FieldPathSchema, new_name: z.string().describe('New field name') }),
+  z.object({
+    op: z.literal('set_type'),
+    path: FieldPathSchema,
+    type: FieldTypeSchema,
+    items_type: FieldTypeSchema.optional().describe('Item type when type is array'),
+  }),
+  z.object({
+    op: z.literal('set_description'),
+    path: FieldPathSchema,
+    description: z.string().describe('New description; empty to remove it'),
+  }),
+  z.object({
+    op: z.literal('wrap_array'),
+    path: FieldPathSchema,
+    description: z.string().optional().describe('Description of the array (defaults to the field description)'),
+  }),
+  z.object({
+    op: z.literal('nest'),
+    paths: z.array(FieldPathSchema).min(1).describe('Fields to move into the object'),
+    under: FieldPathSchema.describe('Object to move the fields into; created if missing'),
+    description: z.string().optional().describe('Description of a newly created object'),
+  }),
+]);
+
+export const EditSchemaSchema = z.object({
+  schema_json: z
+    .string()
+    .optional()
+    .describe('JSON string containing the extraction schema to edit'),
+  schema_path: z
+    .string()
+    .optional()
+    .describe('Path to JSON file containing the extraction schema to edit'),
+  schema_name: z.string().optional().describe('Name of a schema in the schema library to edit'),
+  schema_version: z.number().int().min(1).optional().describe('Library version to edit; the latest when omitted'),
+  operations: z.array(SchemaEditOperationSchema).min(1).describe('Edit operations, applied in order'),
+  save_as: SchemaNameSchema.optional().describe('Also save the edited schema in the schema library under this name'),
+  note: z.string().optional().describe('Version note when saving to the library (optional)'),
+});
+
+// Define tool output schemas
+export const ParseDocumentOutputSchema = z.object({
+  elements: z
+    .array(z.record(z.any()))
+    .describe('Layout elements detected in the document (category, page, content, coordinates)'),
+  content: z
+    .record(z.any())
+    .describe('Whole-document content keyed by output format (html, markdown, text)'),
+  saved_to: z.string().describe('Path of the saved full API response'),
+});
+
+export const SubmitParseJobOutputSchema = z.object({
+  job_id: z.string().describe('Id to pass to get_job_status and get_job_result'),
+  status: z.string().describe('Initial job status'),
+  file: z.string().describe('Name of the submitted file'),
+  submitted_at: z.string(),
+});
+
+export const ParseJobStatusOutputSchema = z.object({
+  job_id: z.string(),
+  status: z.string().describe('submitted, started, completed or failed'),
+  file: z.string().describe('Name of the submitted file'),
+  total_pages: z.number(),
+  completed_pages: z.number(),
+  batches: z
+    .array(z.object({ start_page: z.number(), end_page: z.number(), status: z.string() }))
+    .describe('Page batches processed by Upstage'),
+  submitted_at: z.string(),
+  updated_at: z.string(),
+  failure_message: z.string().optional(),
+  result_saved_to: z.string().optional().describe('Path of the merged result once downloaded'),
+});
+
+export const ParseJobResultOutputSchema = ParseDocumentOutputSchema.extend({
+  job_id: z.string(),
+});
+
+export const ExtractTablesOutputSchema = z.object({
+  source: z.string().describe('Document or parse result the tables came from'),
+  parse_saved_to: z.string().describe('Path of the parse result'),
+  tables: z.array(
+    z.object({
+      index: z.number().describe('1-based position of the table in the document'),
+      element_id: z.number().optional(),
+      page: z.number().optional(),
+      caption: z.string().optional(),
+      header_rows: z.number().describe('Number of leading rows forming the header'),
+      columns: z.array(z.string()).describe('Column names built from the header rows'),
+      rows: z.array(z.array(z.string())).describe('All rows, header included; spanned cells repeat their value'),
+      csv: z.string(),
+      saved_to: z.string().describe('Path of the saved table JSON'),
+      csv_saved_to: z.string().describe('Path of the saved table CSV'),
+    })
+  ),
+});
+
+export const QueryParsedDocumentOutputSchema = z.object({
+  source: z.string(),
+  parse_saved_to: z.string().describe('Path of the parse result'),
+  format: z.enum(DOCUMENT_PARSE_OPTIONS.OUTPUT_FORMATS),
+  total_elements: z.number().describe('Elements in the parse result'),
+  matched: z.number().describe('Elements matching the filters'),
+  elements: z.array(
+    z.object({
+      id: z.number().optional(),
+      category: z.string(),
+      page: z.number().optional(),
+      content: z.string(),
+    })
+  ),
+  content: z.string().describe('Content of the returned elements joined in document order'),
+  next_offset: z.number().optional().describe('Offset for the next page of matches, when more remain'),
+});
+
+export const ChunkDocumentOutputSchema = z.object({
+  source: z.string(),
+  parse_saved_to: z.string().describe('Path of the parse result'),
+  chunks_saved_to: z.string().describe('Path of the JSONL file with one chunk per line'),
+  chunk_count: z.number(),
+  chunks: z
+    .array(
+      z.object({
+        index: z.number(),
+        pages: z.array(z.number()),
+        element_ids: z.array(z.number()),
+        heading_path: z.array(z.string()).describe('Headings the chunk sits under, outermost first'),
+        tokens: z.number().describe('Estimated token count'),
+        chars: z.number(),
+      })
+    )
+    .describe('Chunk metadata; the content is in the JSONL file'),
+});
+
+export const ManageCacheOutputSchema = z.object({
+  action: z.enum(['inspect', 'clear']),
+  removed: z.number().optional().describe('Number of entries removed by clear'),
+  cache: z.object({
+    directory: z.string(),
+    entries: z.number(),
+    total_size_bytes: z.number(),
+    ttl_hours: z.number(),
+    max_size_bytes: z.number(),
+    items: z.array(
+      z.object({
+        key: z.string(),
+        endpoint: z.string(),
+        operation: z.string(),
+        created_at: z.string(),
+        size_bytes: z.number(),
+      })
+    ),
+  }),
+});
+
+const ToolErrorDetailsSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  hint: z.string().optional(),
+  retryable: z.boolean(),
+  status: z.number().optional(),
+  upstage_code: z.string().optional(),
+  request_id: z.string().optional(),
+});
+
+export const BatchOutputSchema = z.object({
+  operation: z.enum(['parse', 'extract', 'classify']),
+  total: z.number().describe('Documents found, including skipped ones'),
+  succeeded: z.number(),
+  failed: z.number(),
+  skipped: z.number(),
+  started_at: z.string(),
+  finished_at: z.string(),
+  items: z
+    .array(
+      z.object({
+        file: z.string(),
+        status: z.enum(['succeeded', 'failed', 'skipped']),
+        output_path: z.string().optional().describe('Path of the saved result'),
+        result: z.record(z.any()).optional().describe('Result summary for the document'),
+        reason: z.string().optional().describe('Why the document was skipped'),
+        error: ToolErrorDetailsSchema.optional().describe('Why the document failed'),
+      })
+    )
+    .describe('Outcome for each document'),
+  manifest_saved_to: z.string().optional().describe('Path of the saved batch manifest; absent for a cancelled batch'),
+});
+
+const ResultMetadataSchema = z.object({
+  file: z.string().describe('Name of the processed file'),
+  result_saved_to: z.string().describe('Path of the saved result'),
+  schema_used: z.string().describe('Schema source used for the request'),
+});
+
+const ValidationReportSchema = z
+  .object({
+    valid: z.boolean().describe('True when every field is present, non-null and of the declared type'),
+    counts: z.object({
+      missing: z.number(),
+      null: z.number(),
+      type_mismatch: z.number(),
+      unexpected: z.number(),
+      coerced: z.number(),
+    }),
+    issues: z.array(
+      z.object({
+        path: z.string().describe('Field path, e.g. items[0].quantity'),
+        kind: z.enum(['missing', 'null', 'type_mismatch', 'unexpected', 'coerced']),
+        expected: z.string().optional().describe('Type declared in the schema'),
+        value: z.any().optional().describe('Value found in the output'),
+        coerced_to: z.any().optional(),
+      })
+    ),
+  })
+  .describe('Field-level check of the extracted data against the schema');
+
+export const ExtractInformationOutputSchema = z.object({
+  extracted_data: z.record(z.any()).describe('Extracted fields matching the extraction schema'),
+  metadata: ResultMetadataSchema.extend({ validation: ValidationReportSchema }),
+});
+
+export const GenerateSchemaOutputSchema = z.object({
+  schema: z.record(z.any()).describe('Generated extraction schema'),
+  schema_json: z.string().describe('Generated schema serialized for the schema_json parameter'),
+  metadata: z.object({
+    source_file: z.string().describe('Name of the analyzed file'),
+    schema_saved_to: z.string().describe('Path of the saved schema'),
+    usage_instructions: z.string(),
+  }),
+});
+
+export const GenerateSchemaFromSamplesOutputSchema = z.object({
+  schema: z.record(z.any()).describe('Merged extraction schema'),
+  schema_json: z.string().describe('Merged schema serialized for the schema_json parameter'),
+  coverage: z
+    .array(
+      z.object({
+        path: z.string().describe('Field path, e.g. items[].quantity'),
+        present_in: z.number().describe('Samples whose schema contained the field'),
+        coverage: z.number().describe('present_in as a fraction of the samples'),
+        type: z.string().describe('Type chosen for the merged schema'),
+        type_conflicts: z.record(z.number()).optional().describe('Types generated by the samples, when they disagree'),
+        included: z.boolean().describe('False when dropped by min_coverage'),
+      })
+    )
+    .describe('Per-field coverage across the samples'),
+  samples: z.array(
+    z.object({
+      file: z.string(),
+      status: z.enum(['succeeded', 'failed']),
+      schema_saved_to: z.string().optional(),
+      fields: z.number().optional().describe('Top-level fields in the schema generated for the sample'),
+      error: ToolErrorDetailsSchema.optional().describe('Why schema generation failed for the sample'),
+    })
+  ),
+  metadata: z.object({
+    samples_used: z.number(),
+    schema_saved_to: z.string().describe('Path of the saved merged schema, usable as schema_path'),
+    report_saved_to: z.string().describe('Path of the saved coverage report'),
+    library_name: z.string().optional(),
+    library_version: z.number().optional(),
+  }),
+});
+
+export const ClassifyDocumentOutputSchema = z.object({
+  classification: z.string().describe('Predicted document category'),
+  metadata: ResultMetadataSchema,
+});
+
+export const ProcessDocumentOutputSchema = z.object({
+  file: z.string().describe('Name of the processed file'),
+  classification: z.string().describe('Predicted document category'),
+  extracted_data: z
+    .record(z.any())
+    .nullable()
+    .describe("Extracted fields, or null when the category is mapped to 'none'"),
+  validation: ValidationReportSchema.nullable(),
+  schema: z.object({
+    matched: z.string().describe("Mapping entry used: the category, '*' or 'fallback'"),
+    source: z.string().describe('Schema source used for extraction'),
+  }),
+  metadata: z.object({
+    classification_saved_to: z.string(),
+    extraction_saved_to: z.string().optional(),
+    result_saved_to: z.string().describe('Path of the saved combined result'),
+  }),
+});
+
+const SchemaFieldsSchema = z
+  .array(z.object({ name: z.string(), type: z.string(), description: z.string().optional() }))
+  .describe('Top-level fields of the schema');
+
+const SchemaSummarySchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  latest_version: z.number(),
+  updated_at: z.string(),
+  fields: SchemaFieldsSchema,
+});
+
+export const SchemaLibraryEntryOutputSchema = SchemaSummarySchema.extend({
+  version: z.number().describe('Version returned'),
+  schema: z.record(z.any()).describe('The json_schema part of the extraction schema'),
+  schema_json: z.string().describe('Full schema serialized for the schema_json parameter'),
+  versions: z
+    .array(z.object({ version: z.number(), created_at: z.string(), note: z.string().optional() }))
+    .describe('Version history, oldest first'),
+});
+
+export const ListSchemasOutputSchema = z.object({
+  directory: z.string().describe('Directory of the schema library'),
+  schemas: z.array(SchemaSummarySchema),
+});
+
+export const DeleteSchemaOutputSchema = z.object({
+  name: z.string(),
+  versions_removed: z.number(),
+});
+
+export const EditSchemaOutputSchema = z.object({
+  schema: z.record(z.any()).describe('Edited extraction schema'),
+  schema_json: z.string().describe('Edited schema serialized for the schema_json parameter'),
+  diff: z
+    .array(
+      z.object({
+        path: z.string(),
+        change: z.enum(['added', 'removed', 'modified']),
+        before: z.object({ type: z.string(), description: z.string().optional() }).optional(),
+        after: z.object({ type: z.string(), description: z.string().optional() }).optional(),
+      })
+    )
+    .describe('Fields added, removed or modified by the edit'),
+  metadata: z.object({
+    source: z.string().describe('Where the original schema came from'),
+    schema_saved_to: z.string().describe('Path of the saved edited schema, usable as schema_path'),
+    report_saved_to: z.string().describe('Path of the saved diff'),
+    library_name: z.string().optional(),
+    library_version: z.number().optional(),
+  }),
+});
+
+/**
+ * Map snake_case parse arguments onto Document Parse settings
+ */
+function toParseSettings(args: Omit<z.infer<typeof SubmitParseJobSchema>, 'file_path'>): DocumentParseSettings {
+  return {
+    outputFormats: args.output_formats,
+    ocr: args.ocr,
+    base64Encoding: args.base64_encoding,
+    coordinates: args.coordinates,
+    chartRecognition: args.chart_recognition,
+    mergeMultipageTables: args.merge_multipage_tables,
+    model: args.model,
+  };
+}
+
+// Define tools
+export const toolDefinitions: ToolDefinition<any>[] = [
+  defineTool({
+    name: 'parse_document',
+    description: `Parse a document using Upstage AI's document digitization API.
+    
+This tool extracts the structure and content from various document types,
+including PDFs, images, and Office files. It preserves the original formatting
+and layout while converting the document into a structured format.
+
+Supported file formats include: PDF, JPEG, PNG, TIFF, and other common document formats.
+
+OPTIONS:
+- output_formats: any of ${DOCUMENT_PARSE_OPTIONS.OUTPUT_FORMATS.join(', ')}
+- ocr: 'force' (default) always runs OCR; 'auto' only OCRs images and scanned pages
+- base64_encoding: element categories returned as base64 images (default: ['table']).
+  Categories: ${DOCUMENT_PARSE_OPTIONS.ELEMENT_CATEGORIES.join(', ')}
+- coordinates: include element bounding boxes (API default: true)
+- chart_recognition: convert charts into tables (API default: true)
+- merge_multipage_tables: merge tables split across pages (API default: false)
+- model: ${DOCUMENT_PARSE_OPTIONS.MODELS.join(', ')} (default: document-parse)`,
+    inputSchema: ParseDocumentSchema,
+    outputSchema: ParseDocumentOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      parseDocument({
+        filePath: args.file_path,
+        apiKey: getApiKey(),
+        ...toParseSettings(args),
+        onProgress,
+        signal,
+        noCache: args.no_cache,
+      }),
+  }),
+  defineTool({
+    name: 'submit_parse_job',
+    description: `Submit a large document to Upstage AI's asynchronous document digitization API.
+
+Use this instead of parse_document for long documents (up to ${FILE_LIMITS.ASYNC_MAX_PAGES} pages).
+The call returns immediately with a job_id. Use get_job_status to follow page-level progress
+and get_job_result to download the merged result once the job is completed.
+
+Accepts the same options as parse_document. Job state is saved under ~/.mcp-upstage/jobs,
+so jobs can be resumed after a server restart.`,
+    inputSchema: SubmitParseJobSchema,
+    outputSchema: SubmitParseJobOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      submitParseJob({
+        filePath: args.file_path,
+        apiKey: getApiKey(),
+        ...toParseSettings(args),
+        onProgress,
+        signal,
+      }),
+  }),
+  defineTool({
+    name: 'get_job_status',
+    description: `Check the status of an asynchronous parse job submitted with submit_parse_job.
+
+Returns the job status (submitted, started, completed or failed), the number of pages
+parsed so far and the status of each page batch.`,
+    inputSchema: ParseJobSchema,
+    outputSchema: ParseJobStatusOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      getParseJobStatus({ jobId: args.job_id, apiKey: getApiKey(), onProgress, signal }),
+  }),
+  defineTool({
+    name: 'get_job_result',
+    description: `Download the result of a completed asynchronous parse job.
+
+Downloads every page batch, merges them into a single result in the same format as
+parse_document and saves it under ~/.mcp-upstage/outputs/document_parsing.
+Fails if the job has not completed yet; use get_job_status to check first.`,
+    inputSchema: ParseJobSchema,
+    outputSchema: ParseJobResultOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      getParseJobResult({ jobId: args.job_id, apiKey: getApiKey(), onProgress, signal }),
+  }),
+  defineTool({
+    name: 'extract_tables',
+    description: `Extract the tables of a document as rows, columns and CSV.
+
+Pass file_path to parse the document (cached parse results are reused), or parse_result with
+the saved_to path or resource URI of an earlier parse_document or get_job_result call.
+Each table element is converted from HTML into rows with one value per column: cells spanning
+several rows or columns repeat their value. Header rows come from <thead> or leading rows of
+header cells and name the columns.
+
+Every table is returned with its page and caption and saved as JSON and CSV under
+~/.mcp-upstage/outputs/table_extraction.`,
+    inputSchema: ExtractTablesSchema,
+    outputSchema: ExtractTablesOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      extractTables({
+        filePath: args.file_path,
+        parseResult: args.parse_result,
+        getApiKey,
+        ocr: args.ocr,
+        mergeMultipageTables: args.merge_multipage_tables,
+        model: args.model,
+        onProgress,
+        signal,
+        noCache: args.no_cache,
+      }),
+  }),
+  defineTool({
+    name: 'query_parsed_document',
+    description: `Return selected elements of a saved parse result instead of the whole document.
+
+Pass the saved_to path or resource URI of an earlier parse_document or get_job_result call.
+Filter by element category (e.g. heading, paragraph, table, figure, equation, footnote),
+page range and text, and pick the content format (markdown, html or text). Filters combine;
+elements come back in document order with their id, category and page.
+
+Large results are paged: at most limit elements are returned, and next_offset is set when
+more elements match.`,
+    inputSchema: QueryParsedDocumentSchema,
+    outputSchema: QueryParsedDocumentOutputSchema,
+    handler: (args) =>
+      queryParsedDocument({
+        parseResult: args.parse_result,
+        categories: args.categories,
+        pageFrom: args.page_from,
+        pageTo: args.page_to,
+        text: args.text,
+        format: args.format,
+        offset: args.offset,
+        limit: args.limit,
+      }),
+  }),
+  defineTool({
+    name: 'chunk_document',
+    description: `Split a parsed document into chunks for a vector store.
+
+Pass file_path to parse the document (cached parse results are reused), or parse_result with
+the saved_to path or resource URI of an earlier parse_document or get_job_result call.
+Chunks follow the document structure: every heading starts a new chunk, paragraphs are packed
+up to max_size and only split when larger than a chunk on their own, and tables are never
+split. Consecutive chunks of a section share up to overlap of text. Page headers and footers
+are left out.
+
+The chunks are written as JSONL next to the parse result, one {id, content, metadata} object
+per line; metadata holds the source, pages, element ids and heading path of the chunk.`,
+    inputSchema: ChunkDocumentSchema,
+    outputSchema: ChunkDocumentOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      chunkDocument({
+        filePath: args.file_path,
+        parseResult: args.parse_result,
+        getApiKey,
+        ocr: args.ocr,
+        mergeMultipageTables: args.merge_multipage_tables,
+        model: args.model,
+        maxSize: args.max_size,
+        overlap: args.overlap,
+        unit: args.unit,
+        format: args.format,
+        onProgress,
+        signal,
+        noCache: args.no_cache,
+      }),
+  }),
+  defineTool({
+    name: 'extract_information',
+    description: `Extract structured information from documents using Upstage Universal Information Extraction.
+    
+This tool can extract key information from any document type without pre-training.
+You can either provide a schema defining what information to extract, or let the system
+automatically generate an appropriate schema based on the document content.
+
+Supported file formats: JPEG, PNG, BMP, PDF, TIFF, HEIC, DOCX, PPTX, XLSX
+Max file size: 50MB
+Max pages: 100
+
+SCHEMA FORMAT: When auto_generate_schema is false, provide schema in this exact format:
+{
+  "type": "json_schema",
+  "json_schema": {
+    "name": "document_schema",
+    "schema": {
+      "type": "object", 
+      "properties": {
+        "field_name": {
+          "type": "string|number|array|object",
+          "description": "What to extract"
+        }
+      }
+    }
+  }
+}
+
+Example schema_json:
+{"type":"json_schema","json_schema":{"name":"document_schema","schema":{"type":"object","properties":{"company_name":{"type":"string","description":"Company name"},"invoice_number":{"type":"string","description":"Invoice number"},"total_amount":{"type":"number","description":"Total amount"}}}}}
+
+VALIDATION: The extracted data is checked against the schema. metadata.validation lists fields
+that are missing, null, of the wrong type or not in the schema, so records can be flagged for
+review. With coerce_types, values such as "1,234.50" or "yes" are converted to the declared type.
+
+SAVED SCHEMAS: Pass schema_name to use the latest version of a schema saved with save_schema.
+The library starts with invoice, receipt, businessCard and contract; see list_schemas.
+
+SCHEMA SPEC: Instead of schema_json, pass a compact schema_spec with one field per line:
+invoice_number: string "Invoice number"
+total_amount: number "Total amount"
+items[]: {name: string, qty: number} "Line items"
+Types are string, number, integer and boolean; append [] for a list. A JSON map of field
+names to descriptions, e.g. {"vendor": "Vendor name"}, is accepted too.`,
+    inputSchema: ExtractInformationSchema,
+    outputSchema: ExtractInformationOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      extractInformationFromFile(args.file_path, getApiKey(), {
+        schemaName: args.schema_name,
+        schemaSpec: args.schema_spec,
+        schemaPath: args.schema_path,
+        schemaJson: args.schema_json,
+        autoGenerateSchema: args.auto_generate_schema,
+        coerceTypes: args.coerce_types,
+        onProgress,
+        signal,
+        noCache: args.no_cache,
+      }),
+  }),
+  defineTool({
+    name: 'generate_schema',
+    description: `Generate an extraction schema for a document using Upstage AI's schema generation API.
+
+This tool analyzes a document and automatically generates a JSON schema that defines the structure 
+and fields that can be extracted from similar documents. The generated schema can then be used 
+with the extract_information tool when auto_generate_schema is set to false.
+
+This is useful when you want to:
+- Create a reusable schema for multiple similar documents
+- Have more control over the extraction fields
+- Ensure consistent field naming and structure across extractions
+
+Supported file formats: JPEG, PNG, BMP, PDF, TIFF, HEIC, DOCX, PPTX, XLSX
+Max file size: 50MB
+Max pages: 100
+
+The tool returns both a readable schema object and a schema_json string that can be directly 
+copied and used with the extract_information tool.`,
+    inputSchema: GenerateSchemaSchema,
+    outputSchema: GenerateSchemaOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      generateSchema({
+        filePath: args.file_path,
+        apiKey: getApiKey(),
+        onProgress,
+        signal,
+        noCache: args.no_cache,
+      }),
+  }),
+  defineTool({
+    name: 'generate_schema_from_samples',
+    description: `Generate one extraction schema from several sample documents.
+
+Runs schema generation on each sample and merges the results: fields from all samples are
+combined, conflicting types are reconciled (integer and number become number, mixed text and
+numbers become string) and the most common description is kept. A schema built this way also
+covers fields that appear on only some documents, such as vendor-specific invoice fields.
+
+The coverage report lists for each field how many samples it appeared in. Use min_coverage to
+drop rare fields, and save_as to store the merged schema in the schema library. A failing
+sample does not stop the others; see samples for the outcome of each.
+
+Up to ${BATCH_LIMITS.MAX_SCHEMA_SAMPLES} samples. Supported file formats: JPEG, PNG, BMP, PDF, TIFF, HEIC, DOCX, PPTX, XLSX`,
+    inputSchema: GenerateSchemaFromSamplesSchema,
+    outputSchema: GenerateSchemaFromSamplesOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      generateSchemaFromSamples({
+        filePaths: args.file_paths,
+        apiKey: getApiKey(),
+        name: args.name,
+        minCoverage: args.min_coverage,
+        saveAs: args.save_as,
+        onProgress,
+        signal,
+        noCache: args.no_cache,
+      }),
+  }),
+  defineTool({
+    name: 'classify_document',
+    description: `Classify a document into predefined categories using Upstage AI's document classification API.
+
+This tool analyzes a document and classifies it into one of several predefined categories such as 
+invoice, receipt, contract, CV, bank statement, and others. You can use the default classification 
+schema or provide your own custom classification categories.
+
+Supported file formats: JPEG, PNG, BMP, PDF, TIFF, HEIC, DOCX, PPTX, XLSX
+Max file size: 50MB
+Max pages: 100
+
+DEFAULT CATEGORIES:
+- invoice: Commercial invoice with itemized charges and billing information
+- receipt: Receipt showing purchase transaction details  
+- contract: Legal agreement or contract document
+- cv: Curriculum vitae or resume
+- bank_statement: Bank account statement showing transactions
+- tax_document: Tax forms or tax-related documents
+- insurance: Insurance policy or claims document
+- business_card: Business card with contact information
+- letter: Formal or business letter
+- form: Application form or survey form
+- certificate: Certificate or diploma
+- report: Business report or analytical document
+- others: Other document types not listed above
+
+CUSTOM CATEGORIES: Simply provide an array of categories in schema_json:
+[
+  {"const": "category1", "description": "Description of category 1"},
+  {"const": "category2", "description": "Description of category 2"}, 
+  {"const": "others", "description": "Other"}
+]
+
+Example custom schema_json:
+[{"const":"medical","description":"Medical records or health documents"},{"const":"legal","description":"Legal documents"},{"const":"financial","description":"Financial statements or reports"},{"const":"others","description":"Other"}]`,
+    inputSchema: ClassifyDocumentSchema,
+    outputSchema: ClassifyDocumentOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      classifyDocumentFromFile(args.file_path, getApiKey(), {
+        schemaPath: args.schema_path,
+        schemaJson: args.schema_json,
+        onProgress,
+        signal,
+        noCache: args.no_cache,
+      }),
+  }),
+  defineTool({
+    name: 'process_document',
+    description: `Classify a document, then extract information with the schema for its category.
+
+Categories are mapped to schemas by schema_map, the categorySchemas of the server config file
+and the built-in schemas, in that order. Returns the category, the extracted data and the schema used.`,
+    inputSchema: ProcessDocumentSchema,
+    outputSchema: ProcessDocumentOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      processDocument({
+        filePath: args.file_path,
+        apiKey: getApiKey(),
+        classificationSchemaPath: args.schema_path,
+        classificationSchemaJson: args.schema_json,
+        schemaMap: args.schema_map,
+        fallback: args.fallback,
+        coerceTypes: args.coerce_types,
+        onProgress,
+        signal,
+        noCache: args.no_cache,
+      }),
+  }),
+  defineTool({
+    name: 'batch_parse',
+    description: `Parse many documents in one call with Upstage AI's document digitization API.
+
+Documents can be given as a directory (optionally recursive), a glob pattern, a list of
+file_paths, or any combination. Files with unsupported extensions found in a directory or
+glob are skipped. Up to ${BATCH_LIMITS.MAX_FILES} documents per call; concurrency sets how many are
+parsed at the same time (default: ${BATCH_LIMITS.DEFAULT_CONCURRENCY}).
+
+A failing document does not stop the batch. The result lists every document as succeeded,
+failed (with the error code) or skipped, and is saved as a manifest next to the parse results.
+Accepts the same parse options as parse_document.`,
+    inputSchema: BatchParseSchema,
+    outputSchema: BatchOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      batchParse({
+        directory: args.directory,
+        recursive: args.recursive,
+        pattern: args.pattern,
+        filePaths: args.file_paths,
+        concurrency: args.concurrency,
+        apiKey: getApiKey(),
+        settings: toParseSettings(args),
+        onProgress,
+        signal,
+        noCache: args.no_cache,
+      }),
+  }),
+  defineTool({
+    name: 'batch_extract',
+    description: `Extract information from many documents in one call with Upstage Universal Information Extraction.
+
+Takes a directory, glob pattern or list of file_paths like batch_parse, and the same schema
+options as extract_information. Pass schema_json or schema_path to extract the same fields
+from every document; with auto_generate_schema a schema is generated per document.
+
+A failing document does not stop the batch. The manifest with the extracted data of each
+document is saved next to the extraction results.`,
+    inputSchema: BatchExtractSchema,
+    outputSchema: BatchOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      batchExtract({
+        directory: args.directory,
+        recursive: args.recursive,
+        pattern: args.pattern,
+        filePaths: args.file_paths,
+        concurrency: args.concurrency,
+        apiKey: getApiKey(),
+        schemaName: args.schema_name,
+        schemaSpec: args.schema_spec,
+        schemaPath: args.schema_path,
+        schemaJson: args.schema_json,
+        autoGenerateSchema: args.auto_generate_schema,
+        coerceTypes: args.coerce_types,
+        onProgress,
+        signal,
+        noCache: args.no_cache,
+      }),
+  }),
+  defineTool({
+    name: 'batch_classify',
+    description: `Classify many documents in one call with Upstage AI's document classification API.
+
+Takes a directory, glob pattern or list of file_paths like batch_parse, and the same category
+options as classify_document. A failing document does not stop the batch. The manifest with
+the category of each document is saved next to the classification results.`,
+    inputSchema: BatchClassifySchema,
+    outputSchema: BatchOutputSchema,
+    handler: (args, { getApiKey, onProgress, signal }) =>
+      batchClassify({
+        directory: args.directory,
+        recursive: args.recursive,
+        pattern: args.pattern,
+        filePaths: args.file_paths,
+        concurrency: args.concurrency,
+        apiKey: getApiKey(),
+        schemaPath: args.schema_path,
+        schemaJson: args.schema_json,
+        onProgress,
+        signal,
+        noCache: args.no_cache,
+      }),
+  }),
+  defineTool({
+    name: 'save_schema',
+    description: `Save an extraction schema in the schema library under a name.
+
+Pass the schema as schema_json, as a compact schema_spec (see extract_information) or as
+schema_path (for example a schema written by generate_schema).
+Saving under an existing name adds a new version and keeps the previous ones; saving a schema
+identical to the latest version changes nothing. Use the name as schema_name in
+extract_information, batch_extract or the schema_map of process_document.
+
+Schemas are stored in ~/.mcp-upstage/schemas. The library starts with the built-in invoice,
+receipt, businessCard and contract schemas.`,
+    inputSchema: SaveSchemaSchema,
+    outputSchema: SchemaLibraryEntryOutputSchema,
+    handler: (args) =>
+      saveSchema({
+        name: args.name,
+        schemaJson: args.schema_json,
+        schemaSpec: args.schema_spec,
+        schemaPath: args.schema_path,
+        description: args.description,
+        note: args.note,
+      }),
+  }),
+  defineTool({
+    name: 'list_schemas',
+    description: `List the schemas in the schema library with their latest version and top-level fields.`,
+    inputSchema: ListSchemasSchema,
+    outputSchema: ListSchemasOutputSchema,
+    handler: () => listSchemas(),
+  }),
+  defineTool({
+    name: 'get_schema',
+    description: `Fetch a schema from the schema library.
+
+Returns the latest version, or the given version, with the version history and a schema_json
+string that can be passed to extract_information.`,
+    inputSchema: GetSchemaSchema,
+    outputSchema: SchemaLibraryEntryOutputSchema,
+    handler: (args) => getSchema(args.name, args.version),
+  }),
+  defineTool({
+    name: 'delete_schema',
+    description: `Delete a schema and all its versions from the schema library.`,
+    inputSchema: DeleteSchemaSchema,
+    outputSchema: DeleteSchemaOutputSchema,
+    handler: (args) => deleteSchema(args.name),
+  }),
+  defineTool({
+    name: 'edit_schema',
+    description: `Apply structured edits to an extraction schema.
+
+Pass the schema as schema_json, schema_path or the schema_name of a saved schema. Operations
+are applied in order; fields are addressed by path such as vendor.name or items[].quantity:
+- add: add a field of the given type
+- remove: remove a field
+- rename: rename a field, keeping its position
+- set_type: change the type of a field
+- set_description: change the description of a field
+- wrap_array: turn a field into an array of that field
+- nest: move fields into an object, created if missing
+
+If any operation fails nothing is changed. The edited schema is checked like any other
+extraction schema and returned with a diff of the changed fields. Pass save_as to store it in
+the schema library.`,
+    inputSchema: EditSchemaSchema,
+    outputSchema: EditSchemaOutputSchema,
+    handler: (args) =>
+      editExtractionSchema({
+        schemaJson: args.schema_json,
+        schemaPath: args.schema_path,
+        schemaName: args.schema_name,
+        schemaVersion: args.schema_version,
+        operations: args.operations,
+        saveAs: args.save_as,
+        note: args.note,
+      }),
+  }),
+  defineTool({
+    name: 'manage_cache',
+    description: `Inspect or clear the local cache of Upstage API results.
+
+Results are cached by the SHA-256 of the file contents, the endpoint and the request options,
+so repeated calls on the same file return instantly without calling the API again.
+Pass no_cache: true to any processing tool to bypass the cache for one call.
+
+Cache limits can be configured with the UPSTAGE_CACHE_TTL_HOURS and UPSTAGE_CACHE_MAX_MB
+environment variables. Set UPSTAGE_CACHE_DISABLED=true to turn caching off.
+Only the entries fetched with the caller's Upstage API key are listed or cleared.`,
+    inputSchema: ManageCacheSchema,
+    outputSchema: ManageCacheOutputSchema,
+    handler: (args, { getApiKey }) => manageCache({ action: args.action, key: args.key, apiKey: getApiKey() }),
+  }),
+];
+
+/**
+ * Convert a Zod object schema into the JSON Schema advertised by tools/list
+ */
+function toJsonSchema(schema: z.ZodTypeAny): Tool['inputSchema'] {
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: 'jsonSchema7',
+    $refStrategy: 'none',
+  }) as Record<string, any>;
+  return jsonSchema as Tool['inputSchema'];
+}
+
+/**
+ * Tool listing generated from the registry
+ */
+export function listTools(): Tool[] {
+  return toolDefinitions.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toJsonSchema(tool.inputSchema),
+    outputSchema: toJsonSchema(tool.outputSchema),
+  }));
+}
+
+/**
+ * Look up a registered tool by name
+ */
+export function getTool(name: string): ToolDefinition<any> | undefined {
+  return toolDefinitions.find((tool) => tool.name === name);
+}
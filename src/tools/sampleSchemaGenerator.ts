@@ -0,0 +1,173 @@
+import path from 'path';
+import {
+  getOutputDirectory,
+  ensureDirectoryExists,
+  saveJsonToFile,
+  generateTimestampedFilename,
+  mergeSchemas,
+  saveNamedSchema,
+  isValidSchemaName,
+  describeError,
+  ProgressCallback,
+  FieldCoverage,
+  ToolErrorDetails,
+  ValidationError,
+  BATCH_LIMITS,
+} from '../utils';
+import { generateSchema } from './schemaGenerator';
+
+interface GenerateSchemaFromSamplesOptions {
+  filePaths: string[];
+  apiKey: string;
+  /** Name of the merged schema */
+  name?: string;
+  /** Drop top-level fields found in fewer than this fraction of samples (0-1) */
+  minCoverage?: number;
+  /** Also save the merged schema in the schema library under this name */
+  saveAs?: string;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+  /** Bypass the result cache and always call the API */
+  noCache?: boolean;
+}
+
+export interface SampleOutcome {
+  file: string;
+  status: 'succeeded' | 'failed';
+  /** Path of the schema generated for this sample */
+  schema_saved_to?: string;
+  /** Number of top-level fields in the generated schema */
+  fields?: number;
+  error?: ToolErrorDetails;
+}
+
+export interface GenerateSchemaFromSamplesResult {
+  schema: Record<string, any>;
+  schema_json: string;
+  coverage: FieldCoverage[];
+  samples: SampleOutcome[];
+  metadata: {
+    samples_used: number;
+    /** Path of the merged json_schema, usable as schema_path */
+    schema_saved_to: string;
+    /** Path of the full result with coverage and per-sample outcomes */
+    report_saved_to: string;
+    library_name?: string;
+    library_version?: number;
+  };
+}
+
+export async function generateSchemaFromSamples(
+  options: GenerateSchemaFromSamplesOptions
+): Promise<GenerateSchemaFromSamplesResult> {
+  const { apiKey, name, minCoverage, saveAs, onProgress, signal, noCache } = options;
+  const filePaths = [...new Set(options.filePaths.map((filePath) => path.resolve(filePath)))];
+
+  if (filePaths.length === 0) {
+    throw new ValidationError('No sample documents given', { hint: 'Pass the sample documents as file_paths' });
+  }
+  if (filePaths.length > BATCH_LIMITS.MAX_SCHEMA_SAMPLES) {
+    throw new ValidationError(
+      `${filePaths.length} samples given; the maximum is ${BATCH_LIMITS.MAX_SCHEMA_SAMPLES}`,
+      { hint: 'A handful of samples covering each layout is usually enough' }
+    );
+  }
+  // Check the library name before spending API calls on the samples
+  if (saveAs !== undefined && !isValidSchemaName(saveAs)) {
+    throw new ValidationError(`Invalid schema name: ${saveAs}`, {
+      hint: 'Use up to 64 letters, digits, "_" or "-", starting with a letter or digit',
+    });
+  }
+
+  const samples: SampleOutcome[] = new Array(filePaths.length);
+  const schemas: Record<string, any>[] = new Array(filePaths.length);
+  let firstError: unknown;
+  let finished = 0;
+
+  // Generate a schema per sample; a failing sample does not stop the others
+  let next = 0;
+  const worker = async () => {
+    while (next < filePaths.length) {
+      const index = next++;
+      const file = filePaths[index];
+      signal?.throwIfAborted();
+
+      try {
+        const generated = await generateSchema({ filePath: file, apiKey, signal, noCache });
+        schemas[index] = generated.schema.json_schema;
+        samples[index] = {
+          file,
+          status: 'succeeded',
+          schema_saved_to: generated.metadata.schema_saved_to,
+          fields: Object.keys(generated.schema.json_schema?.schema?.properties || {}).length,
+        };
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        firstError = firstError ?? error;
+        samples[index] = { file, status: 'failed', error: describeError(error) };
+      }
+
+      finished++;
+      if (onProgress) {
+        await onProgress({
+          progress: (finished / filePaths.length) * 90,
+          total: 100,
+          message: `Generated schemas for ${finished}/${filePaths.length} samples`,
+        });
+      }
+    }
+  };
+
+  const workerCount = Math.min(BATCH_LIMITS.DEFAULT_CONCURRENCY, filePaths.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  const generatedSchemas = schemas.filter(Boolean);
+  if (generatedSchemas.length === 0) {
+    throw firstError;
+  }
+
+  const merged = mergeSchemas(generatedSchemas, { name, minCoverage });
+
+  // Skip writing results for a cancelled request
+  signal?.throwIfAborted();
+
+  const schemaDir = getOutputDirectory('information_extraction/schemas');
+  const reportDir = getOutputDirectory('information_extraction/schema_reports');
+  await ensureDirectoryExists(schemaDir);
+  await ensureDirectoryExists(reportDir);
+  const schemaName = merged.schema.json_schema.name;
+  const schemaPath = path.join(schemaDir, generateTimestampedFilename(schemaName, 'merged_schema'));
+  const reportPath = path.join(reportDir, generateTimestampedFilename(schemaName, 'merged_schema_report'));
+
+  const result: GenerateSchemaFromSamplesResult = {
+    schema: merged.schema,
+    schema_json: JSON.stringify(merged.schema),
+    coverage: merged.coverage,
+    samples,
+    metadata: {
+      samples_used: generatedSchemas.length,
+      schema_saved_to: schemaPath,
+      report_saved_to: reportPath,
+    },
+  };
+
+  if (saveAs) {
+    const saved = await saveNamedSchema(saveAs, merged.schema, {
+      note: `Merged from ${generatedSchemas.length} samples`,
+    });
+    result.metadata.library_name = saved.name;
+    result.metadata.library_version = saved.version;
+  }
+
+  // The schema file holds only the json_schema, so it can be passed back as schema_path
+  await saveJsonToFile(merged.schema.json_schema, schemaPath, { indent: 2 });
+  await saveJsonToFile(result, reportPath, { indent: 2 });
+
+  if (onProgress) {
+    await onProgress({ progress: 100, total: 100, message: 'Merged schema saved' });
+  }
+
+  return result;
+}
@@ -0,0 +1,137 @@
+import path from 'path';
+import {
+  getOutputDirectory,
+  ensureDirectoryExists,
+  saveJsonToFile,
+  generateTimestampedFilename,
+  readSchemaFile,
+  toJsonSchemaPart,
+  editSchema,
+  diffSchemas,
+  getNamedSchema,
+  saveNamedSchema,
+  isValidSchemaName,
+  SchemaEditOperation,
+  SchemaDiffEntry,
+  ValidationError,
+} from '../utils';
+
+interface EditSchemaOptions {
+  schemaJson?: string;
+  schemaPath?: string;
+  /** Name of a schema in the schema library */
+  schemaName?: string;
+  /** Library version to edit; the latest when omitted */
+  schemaVersion?: number;
+  operations: SchemaEditOperation[];
+  /** Also save the edited schema in the schema library under this name */
+  saveAs?: string;
+  note?: string;
+}
+
+export interface EditSchemaResult {
+  schema: Record<string, any>;
+  schema_json: string;
+  diff: SchemaDiffEntry[];
+  metadata: {
+    /** Where the original schema came from */
+    source: string;
+    /** Path of the edited json_schema, usable as schema_path */
+    schema_saved_to: string;
+    /** Path of the full result with the diff */
+    report_saved_to: string;
+    library_name?: string;
+    library_version?: number;
+  };
+}
+
+/**
+ * Read the schema to edit from a JSON string, a file or the schema library
+ */
+async function loadSchemaToEdit(options: EditSchemaOptions): Promise<{ schema: Record<string, any>; source: string }> {
+  const { schemaJson, schemaPath, schemaName, schemaVersion } = options;
+  let schema: any;
+  let source: string;
+  
+  if (schemaJson) {
+    try {
+      schema = JSON.parse(schemaJson);
+    } catch (error) {
+      throw new ValidationError(`Invalid JSON: ${error instanceof Error ? error.message : error}`, {
+        code: 'INVALID_SCHEMA',
+      });
+    }
+    source = 'schema_json';
+  } else if (schemaPath) {
+    schema = await readSchemaFile(schemaPath);
+    source = schemaPath;
+  } else if (schemaName) {
+    const named = await getNamedSchema(schemaName, schemaVersion);
+    schema = named.schema;
+    source = `library:${named.name}@${named.version}`;
+  } else {
+    throw new ValidationError('No schema given', { hint: 'Pass schema_json, schema_path or schema_name' });
+  }
+  
+  if (!schema || typeof schema !== 'object') {
+    throw new ValidationError('Schema must be a JSON object', { code: 'INVALID_SCHEMA' });
+  }
+  try {
+    return { schema: toJsonSchemaPart(schema), source };
+  } catch (error) {
+    throw new ValidationError(`Invalid schema format: ${error instanceof Error ? error.message : error}`, {
+      code: 'INVALID_SCHEMA',
+      hint: 'Use generate_schema to get a valid schema, or see the schema guide in the README',
+    });
+  }
+}
+
+export async function editExtractionSchema(options: EditSchemaOptions): Promise<EditSchemaResult> {
+  const { operations, saveAs, note } = options;
+  
+  if (operations.length === 0) {
+    throw new ValidationError('No operations given', { hint: 'Pass at least one operation' });
+  }
+  if (saveAs !== undefined && !isValidSchemaName(saveAs)) {
+    throw new ValidationError(`Invalid schema name: ${saveAs}`, {
+      hint: 'Use up to 64 letters, digits, "_" or "-", starting with a letter or digit',
+    });
+  }
+  
+  const { schema, source } = await loadSchemaToEdit(options);
+  const edited = editSchema(schema, operations);
+  const fullSchema = { type: 'json_schema', json_schema: edited };
+  
+  const schemaDir = getOutputDirectory('information_extraction/schemas');
+  const reportDir = getOutputDirectory('information_extraction/schema_reports');
+  await ensureDirectoryExists(schemaDir);
+  await ensureDirectoryExists(reportDir);
+  const schemaName = edited.name || 'document_schema';
+  const schemaPath = path.join(schemaDir, generateTimestampedFilename(schemaName, 'edited_schema'));
+  const reportPath = path.join(reportDir, generateTimestampedFilename(schemaName, 'edited_schema_diff'));
+  
+  const result: EditSchemaResult = {
+    schema: fullSchema,
+    schema_json: JSON.stringify(fullSchema),
+    diff: diffSchemas(schema, edited),
+    metadata: {
+      source,
+      schema_saved_to: schemaPath,
+      report_saved_to: reportPath,
+    },
+  };
+  
+  if (saveAs) {
+    const saved = await saveNamedSchema(saveAs, fullSchema, {
+      note: note || `Edited from ${source} (${operations.length} operations)`,
+    });
+    result.metadata.library_name = saved.name;
+    result.metadata.library_version = saved.version;
+  }
+  
+  // The schema file holds only the json_schema, so it can be passed back as schema_path
+  await saveJsonToFile(edited, schemaPath, { indent: 2 });
+  await saveJsonToFile(result, reportPath, { indent: 2 });
+  
+  return result;
+}
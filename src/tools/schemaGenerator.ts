@@ -1,7 +1,9 @@
 import path from 'path';
 import {
-  API_ENDPOINTS,
+  getApiEndpoints,
   makeApiRequest,
+  findSavedOutput,
+  recordSavedOutput,
   validateExtractionFile,
   getOutputDirectory,
   generateTimestampedFilename,
@@ -9,23 +11,40 @@ import {
   ensureDirectoryExists,
   readFileAsBase64,
   getMimeType,
+  ProgressCallback,
+  reportQueueWait,
+  UpstageApiError,
+  parseJsonObjectContent,
 } from '../utils';
 
 interface GenerateSchemaOptions {
   filePath: string;
   apiKey: string;
-  onProgress?: (progress: { progress: number; total: number }) => Promise<void>;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+  /** Bypass the result cache and always call the API */
+  noCache?: boolean;
 }
 
-export async function generateSchema(options: GenerateSchemaOptions): Promise<string> {
-  const { filePath, apiKey, onProgress } = options;
+export interface GenerateSchemaResult {
+  schema: Record<string, any>;
+  schema_json: string;
+  metadata: {
+    source_file: string;
+    schema_saved_to: string;
+    usage_instructions: string;
+  };
+}
+
+export async function generateSchema(options: GenerateSchemaOptions): Promise<GenerateSchemaResult> {
+  const { filePath, apiKey, onProgress, signal, noCache } = options;
   
   // Validate input file
   await validateExtractionFile(filePath);
   
   // Report initial progress
   if (onProgress) {
-    await onProgress({ progress: 10, total: 100 });
+    await onProgress({ progress: 10, total: 100, message: 'Validated document' });
   }
   
   // Get file MIME type and encode to base64
@@ -34,7 +53,7 @@ export async function generateSchema(options: GenerateSchemaOptions): Promise<st
   
   // Report encoding progress
   if (onProgress) {
-    await onProgress({ progress: 30, total: 100 });
+    await onProgress({ progress: 30, total: 100, message: 'Encoded document' });
   }
   
   // Prepare request data in OpenAI format
@@ -57,62 +76,70 @@ export async function generateSchema(options: GenerateSchemaOptions): Promise<st
   
   // Report API request progress
   if (onProgress) {
-    await onProgress({ progress: 50, total: 100 });
+    await onProgress({ progress: 50, total: 100, message: 'Waiting for Upstage schema generation' });
   }
   
   // Make API request
   const result = await makeApiRequest(
-    API_ENDPOINTS.SCHEMA_GENERATION,
+    getApiEndpoints().SCHEMA_GENERATION,
     apiKey,
     {
       json: requestData,
+      signal,
+      onQueueWait: reportQueueWait(onProgress, 50, 80),
+      useCache: !noCache,
     },
     'Schema generation'
   );
   
   // Report processing progress
   if (onProgress) {
-    await onProgress({ progress: 80, total: 100 });
+    await onProgress({ progress: 80, total: 100, message: 'Processing generated schema' });
   }
   
   // Extract schema from response
   if (!result.choices || result.choices.length === 0) {
-    throw new Error('Invalid response from schema generation API');
+    throw new UpstageApiError('Invalid response from schema generation API', { code: 'UPSTAGE_INVALID_RESPONSE' });
   }
   
   const content = result.choices[0].message.content;
-  const schema = JSON.parse(content);
+  const schema = parseJsonObjectContent(content, 'Schema generation');
   
   if (!schema.json_schema) {
-    throw new Error('Invalid schema format returned');
+    throw new UpstageApiError('Invalid schema format returned', { code: 'UPSTAGE_INVALID_RESPONSE' });
   }
   
-  // Save generated schema
-  const schemaDir = getOutputDirectory('information_extraction/schemas');
-  await ensureDirectoryExists(schemaDir);
-  
-  const schemaFilename = generateTimestampedFilename(filePath, 'generated_schema');
-  const schemaPath = path.join(schemaDir, schemaFilename);
-  
-  // Save the full schema with metadata
-  const schemaWithMetadata = {
-    generated_schema: schema,
-    metadata: {
-      source_file: path.basename(filePath),
-      generated_at: new Date().toISOString(),
-      schema_saved_to: schemaPath,
-    }
-  };
-  
-  await saveJsonToFile(schemaWithMetadata, schemaPath, { indent: 2 });
+  // Skip writing results for a cancelled request
+  signal?.throwIfAborted();
+  
+  // Save generated schema, unless a cached result was already saved
+  let schemaPath = await findSavedOutput(result, 'generated_schema');
+  if (!schemaPath) {
+    const schemaDir = getOutputDirectory('information_extraction/schemas');
+    await ensureDirectoryExists(schemaDir);
+    schemaPath = path.join(schemaDir, generateTimestampedFilename(filePath, 'generated_schema'));
+    
+    // Save the full schema with metadata
+    const schemaWithMetadata = {
+      generated_schema: schema,
+      metadata: {
+        source_file: path.basename(filePath),
+        generated_at: new Date().toISOString(),
+        schema_saved_to: schemaPath,
+      }
+    };
+    
+    await saveJsonToFile(schemaWithMetadata, schemaPath, { indent: 2 });
+    await recordSavedOutput(result, 'generated_schema', schemaPath);
+  }
   
   // Report completion
   if (onProgress) {
-    await onProgress({ progress: 100, total: 100 });
+    await onProgress({ progress: 100, total: 100, message: 'Schema generation complete' });
   }
   
   // Return formatted response with the schema and metadata
-  const response = {
+  return {
     schema: schema,
     schema_json: JSON.stringify(schema),
     metadata: {
@@ -121,18 +148,18 @@ export async function generateSchema(options: GenerateSchemaOptions): Promise<st
       usage_instructions: "Copy the 'schema_json' value to use with extract_information tool when auto_generate_schema is false"
     }
   };
-  
-  return JSON.stringify(response, null, 2);
 }
 
 export async function generateSchemaFromFile(
   filePath: string,
   apiKey: string,
-  onProgress?: (progress: { progress: number; total: number }) => Promise<void>
-): Promise<string> {
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<GenerateSchemaResult> {
   return generateSchema({
     filePath,
     apiKey,
     onProgress,
+    signal,
   });
 }
\ No newline at end of file
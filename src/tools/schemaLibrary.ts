@@ -0,0 +1,91 @@
+import {
+  saveNamedSchema,
+  getNamedSchema,
+  listNamedSchemas,
+  deleteNamedSchema,
+  readSchemaFile,
+  parseSchemaSpec,
+  getSchemaLibraryDirectory,
+  NamedSchema,
+  NamedSchemaSummary,
+  ValidationError,
+} from '../utils';
+
+interface SaveSchemaOptions {
+  name: string;
+  schemaJson?: string;
+  /** Compact field spec, expanded with the library name as schema name */
+  schemaSpec?: string;
+  schemaPath?: string;
+  description?: string;
+  note?: string;
+}
+
+export interface SchemaLibraryEntry extends NamedSchema {
+  /** Full schema serialized for the schema_json parameter */
+  schema_json: string;
+}
+
+export interface ListSchemasResult {
+  directory: string;
+  schemas: NamedSchemaSummary[];
+}
+
+function toEntry(schema: NamedSchema): SchemaLibraryEntry {
+  return {
+    ...schema,
+    schema_json: JSON.stringify({ type: 'json_schema', json_schema: schema.schema }),
+  };
+}
+
+/**
+ * Read the schema to save from a JSON string, a compact spec or a file
+ */
+async function loadSchemaInput(options: SaveSchemaOptions): Promise<Record<string, any>> {
+  const { schemaJson, schemaSpec, schemaPath } = options;
+  
+  if (schemaJson) {
+    try {
+      return JSON.parse(schemaJson);
+    } catch (error) {
+      throw new ValidationError(`Invalid JSON: ${error instanceof Error ? error.message : error}`, {
+        code: 'INVALID_SCHEMA',
+      });
+    }
+  }
+  
+  if (schemaSpec) {
+    try {
+      return parseSchemaSpec(schemaSpec, options.name);
+    } catch (error) {
+      throw new ValidationError(`Invalid schema spec: ${error instanceof Error ? error.message : error}`, {
+        code: 'INVALID_SCHEMA',
+      });
+    }
+  }
+  
+  if (schemaPath) {
+    return readSchemaFile(schemaPath);
+  }
+  
+  throw new ValidationError('No schema given', { hint: 'Pass schema_json, schema_spec or schema_path' });
+}
+
+export async function saveSchema(options: SaveSchemaOptions): Promise<SchemaLibraryEntry> {
+  const schema = await loadSchemaInput(options);
+  return toEntry(
+    await saveNamedSchema(options.name, schema, { description: options.description, note: options.note })
+  );
+}
+
+export async function getSchema(name: string, version?: number): Promise<SchemaLibraryEntry> {
+  return toEntry(await getNamedSchema(name, version));
+}
+
+export async function listSchemas(): Promise<ListSchemasResult> {
+  return { directory: getSchemaLibraryDirectory(), schemas: await listNamedSchemas() };
+}
+
+export async function deleteSchema(name: string): Promise<{ name: string; versions_removed: number }> {
+  return { name, versions_removed: await deleteNamedSchema(name) };
+}
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  getOutputDirectory,
+  ensureDirectoryExists,
+  saveJsonToFile,
+  generateTimestampedFilename,
+  elementContent,
+  parsedDocumentName,
+  parseHtmlTable,
+  tableToCsv,
+  ValidationError,
+} from '../utils';
+import { loadOrParseDocument, ParseSourceOptions } from './documentParser';
+
+export interface ExtractedTable {
+  /** 1-based position of the table in the document */
+  index: number;
+  element_id?: number;
+  page?: number;
+  /** Text of the caption element next to the table */
+  caption?: string;
+  header_rows: number;
+  columns: string[];
+  rows: string[][];
+  csv: string;
+  /** Path of the saved table JSON */
+  saved_to: string;
+  /** Path of the saved table CSV */
+  csv_saved_to: string;
+}
+
+export interface ExtractTablesResult {
+  source: string;
+  /** Path of the parse result the tables were read from */
+  parse_saved_to: string;
+  tables: ExtractedTable[];
+}
+
+/**
+ * Find the caption printed directly above or below a table
+ */
+function findCaption(elements: Record<string, any>[], index: number): string | undefined {
+  const table = elements[index];
+  for (const candidate of [elements[index - 1], elements[index + 1]]) {
+    if (candidate?.category === 'caption' && candidate.page === table.page) {
+      return elementContent(candidate, 'text') || undefined;
+    }
+  }
+  return undefined;
+}
+
+export async function extractTables(options: ParseSourceOptions): Promise<ExtractTablesResult> {
+  const { filePath, onProgress, signal } = options;
+  const parsed = await loadOrParseDocument(options);
+  const { source } = parsed;
+  
+  const tableIndexes = parsed.elements
+    .map((element, index) => (element.category === 'table' ? index : -1))
+    .filter((index) => index >= 0);
+  if (tableIndexes.some((index) => !parsed.elements[index].content?.html)) {
+    throw new ValidationError('The parse result has no HTML for its tables', {
+      hint: "Parse the document again with output_formats including 'html'",
+    });
+  }
+  
+  // Skip writing results for a cancelled request
+  signal?.throwIfAborted();
+  
+  const outputDir = getOutputDirectory('table_extraction');
+  await ensureDirectoryExists(outputDir);
+  const documentName = filePath ? path.basename(filePath) : parsedDocumentName(parsed.saved_to);
+  
+  const tables: ExtractedTable[] = [];
+  for (const [position, elementIndex] of tableIndexes.entries()) {
+    const element = parsed.elements[elementIndex];
+    const grid = parseHtmlTable(element.content.html);
+    const csv = tableToCsv(grid.rows);
+    
+    const tablePath = path.join(outputDir, generateTimestampedFilename(documentName, `table_${position + 1}`));
+    const csvPath = tablePath.replace(/\.json$/, '.csv');
+    
+    const table: ExtractedTable = {
+      index: position + 1,
+      element_id: element.id,
+      page: element.page,
+      caption: findCaption(parsed.elements, elementIndex),
+      header_rows: grid.header_rows,
+      columns: grid.columns,
+      rows: grid.rows,
+      csv,
+      saved_to: tablePath,
+      csv_saved_to: csvPath,
+    };
+    
+    await fs.writeFile(csvPath, csv, 'utf-8');
+    await saveJsonToFile(
+      { source, parse_saved_to: parsed.saved_to, ...table, records: grid.records },
+      tablePath,
+      { indent: 2 }
+    );
+    tables.push(table);
+  }
+  
+  if (onProgress) {
+    await onProgress({ progress: 100, total: 100, message: `Extracted ${tables.length} tables` });
+  }
+  
+  return { source, parse_saved_to: parsed.saved_to, tables };
+}
@@ -0,0 +1,187 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockUpstageServer, mockResponses } from '../../mock/mockUpstageServer';
+import { makeApiRequest, loadApiConfig, getApiEndpoints, resetRateLimiters, UpstageApiError } from '..';
+
+describe('ApiClient', () => {
+  const mock = new MockUpstageServer();
+  let homeDir: string;
+
+  beforeAll(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-upstage-test-'));
+    jest.spyOn(os, 'homedir').mockReturnValue(homeDir);
+    process.env.UPSTAGE_CACHE_DISABLED = 'true';
+    await mock.start();
+    loadApiConfig({ baseUrl: mock.baseUrl });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await mock.close();
+    delete process.env.UPSTAGE_CACHE_DISABLED;
+    await fs.rm(homeDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    resetRateLimiters();
+  });
+
+  it('sends the API key and client header', async () => {
+    await makeApiRequest(getApiEndpoints().DOCUMENT_CLASSIFICATION, 'test-key', { json: {} });
+
+    const [request] = mock.requestsFor('DOCUMENT_CLASSIFICATION');
+    expect(request.headers.authorization).toBe('Bearer test-key');
+    expect(request.headers['x-upstage-client']).toBe('mcp');
+  });
+
+  it('retries rate-limited requests until they succeed', async () => {
+    mock.enqueue('INFORMATION_EXTRACTION', mockResponses.rateLimit());
+
+    const result = await makeApiRequest(
+      getApiEndpoints().INFORMATION_EXTRACTION,
+      'test-key',
+      { json: { response_format: { json_schema: { schema: { type: 'object', properties: {} } } } } },
+      'Information extraction'
+    );
+
+    expect(result.choices).toHaveLength(1);
+    expect(mock.requestsFor('INFORMATION_EXTRACTION')).toHaveLength(2);
+  });
+
+  it('waits for Retry-After before retrying, holding back other requests', async () => {
+    mock.enqueue('DOCUMENT_CLASSIFICATION', mockResponses.rateLimit(2));
+    const url = getApiEndpoints().DOCUMENT_CLASSIFICATION;
+    const startedAt = Date.now();
+
+    const first = makeApiRequest(url, 'test-key', { json: {} });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const second = makeApiRequest(url, 'test-key', { json: {} });
+
+    // Neither the retry nor the second request reach the API before Retry-After has passed
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    expect(mock.requestsFor('DOCUMENT_CLASSIFICATION')).toHaveLength(1);
+
+    await Promise.all([first, second]);
+    expect(mock.requestsFor('DOCUMENT_CLASSIFICATION')).toHaveLength(3);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(2000);
+  });
+
+  it('queues requests beyond the concurrency limit and reports the wait', async () => {
+    process.env.UPSTAGE_MAX_CONCURRENCY = '1';
+    try {
+      mock.enqueue('DOCUMENT_CLASSIFICATION', mockResponses.slow(300));
+      const url = getApiEndpoints().DOCUMENT_CLASSIFICATION;
+      const waits: number[] = [];
+
+      await Promise.all([
+        makeApiRequest(url, 'test-key', { json: {} }),
+        makeApiRequest(url, 'test-key', { json: {}, onQueueWait: (update) => { waits.push(update.position); } }),
+      ]);
+
+      expect(waits).toEqual([1, 0]);
+    } finally {
+      delete process.env.UPSTAGE_MAX_CONCURRENCY;
+    }
+  });
+
+  it('does not share limits between API keys', async () => {
+    process.env.UPSTAGE_MAX_CONCURRENCY = '1';
+    try {
+      mock.enqueue('DOCUMENT_CLASSIFICATION', mockResponses.slow(300));
+      const url = getApiEndpoints().DOCUMENT_CLASSIFICATION;
+      const waits: number[] = [];
+
+      await Promise.all([
+        makeApiRequest(url, 'key-a', { json: {} }),
+        makeApiRequest(url, 'key-b', { json: {}, onQueueWait: (update) => { waits.push(update.position); } }),
+      ]);
+
+      expect(waits).toEqual([]);
+    } finally {
+      delete process.env.UPSTAGE_MAX_CONCURRENCY;
+    }
+  });
+
+  it('does not share cached results between API keys', async () => {
+    delete process.env.UPSTAGE_CACHE_DISABLED;
+    try {
+      const url = getApiEndpoints().DOCUMENT_CLASSIFICATION;
+      const request = { json: { model: 'document-classify' }, useCache: true };
+
+      await makeApiRequest(url, 'first-key', request);
+      await makeApiRequest(url, 'first-key', request);
+      await makeApiRequest(url, 'second-key', request);
+
+      expect(mock.requestsFor('DOCUMENT_CLASSIFICATION').map((entry) => entry.headers.authorization)).toEqual([
+        'Bearer first-key',
+        'Bearer second-key',
+      ]);
+    } finally {
+      process.env.UPSTAGE_CACHE_DISABLED = 'true';
+    }
+  });
+
+  it('gives up on server errors after the configured attempts', async () => {
+    mock.enqueue(
+      'SCHEMA_GENERATION',
+      mockResponses.serverError(),
+      mockResponses.serverError(502),
+      mockResponses.serverError(503)
+    );
+
+    await expect(
+      makeApiRequest(getApiEndpoints().SCHEMA_GENERATION, 'test-key', { json: {} }, 'Schema generation')
+    ).rejects.toThrow('Schema generation failed');
+    expect(mock.requestsFor('SCHEMA_GENERATION')).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    mock.enqueue('DOCUMENT_CLASSIFICATION', mockResponses.clientError(400, 'Unsupported document'));
+
+    await expect(
+      makeApiRequest(getApiEndpoints().DOCUMENT_CLASSIFICATION, 'test-key', { json: {} }, 'Document classification')
+    ).rejects.toThrow('Document classification failed: Unsupported document');
+    expect(mock.requestsFor('DOCUMENT_CLASSIFICATION')).toHaveLength(1);
+  });
+
+  it('rejects with an UpstageApiError carrying the status and request ID', async () => {
+    mock.enqueue('DOCUMENT_CLASSIFICATION', {
+      status: 413,
+      body: { error: { message: 'Payload too large', code: 'file_too_large' } },
+      headers: { 'x-request-id': 'req-123' },
+    });
+
+    const error = await makeApiRequest(getApiEndpoints().DOCUMENT_CLASSIFICATION, 'test-key', { json: {} }).catch(
+      (error) => error
+    );
+
+    expect(error).toBeInstanceOf(UpstageApiError);
+    expect(error).toMatchObject({
+      code: 'UPSTAGE_PAYLOAD_TOO_LARGE',
+      status: 413,
+      upstageCode: 'file_too_large',
+      requestId: 'req-123',
+      retryable: false,
+    });
+    expect(error.hint).toContain('submit_parse_job');
+  });
+
+  it('aborts a slow request when the signal fires', async () => {
+    mock.enqueue('DOCUMENT_CLASSIFICATION', mockResponses.slow(5000));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(
+      makeApiRequest(
+        getApiEndpoints().DOCUMENT_CLASSIFICATION,
+        'test-key',
+        { json: {}, signal: controller.signal },
+        'Document classification'
+      )
+    ).rejects.toThrow('Document classification cancelled');
+    expect(mock.requestsFor('DOCUMENT_CLASSIFICATION')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,87 @@
+import { chunkElements, estimateTokens } from '..';
+
+function element(id: number, category: string, page: number, text: string) {
+  return { id, category, page, content: { text, markdown: text } };
+}
+
+const words = (count: number, prefix: string) =>
+  Array.from({ length: count }, (_, index) => `${prefix}${index}`).join(' ');
+
+describe('chunkElements', () => {
+  const options = { maxSize: 100, overlap: 20, unit: 'chars' as const, format: 'markdown' as const };
+
+  it('starts a chunk at every heading and records the heading path', () => {
+    const chunks = chunkElements(
+      [
+        element(0, 'header', 1, 'ACME Corp - Confidential'),
+        element(1, 'heading1', 1, 'Report'),
+        element(2, 'paragraph', 1, 'Intro text.'),
+        element(3, 'heading2', 2, 'Sales'),
+        element(4, 'paragraph', 2, 'Sales grew.'),
+        element(5, 'heading2', 3, 'Costs'),
+        element(6, 'paragraph', 3, 'Costs fell.'),
+        element(7, 'footer', 3, 'Page 3'),
+      ],
+      options
+    );
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      'Report\n\nIntro text.',
+      'Sales\n\nSales grew.',
+      'Costs\n\nCosts fell.',
+    ]);
+    expect(chunks.map((chunk) => chunk.heading_path)).toEqual([['Report'], ['Report', 'Sales'], ['Report', 'Costs']]);
+    expect(chunks[1]).toMatchObject({ index: 1, pages: [2], element_ids: [3, 4], chars: 18 });
+  });
+
+  it('packs paragraphs up to the maximum size with overlap', () => {
+    const first = words(14, 'a');
+    const second = words(14, 'b');
+    const third = words(14, 'c');
+    const chunks = chunkElements(
+      [element(0, 'paragraph', 1, first), element(1, 'paragraph', 1, second), element(2, 'paragraph', 2, third)],
+      options
+    );
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].content).toBe(`${first}\n\n${second}`);
+    // The next chunk repeats the end of the previous one
+    expect(chunks[1].content).toBe(`b9 b10 b11 b12 b13\n\n${third}`);
+    expect(chunks[1]).toMatchObject({ pages: [1, 2], element_ids: [1, 2] });
+    expect(chunks.every((chunk) => chunk.chars <= 100)).toBe(true);
+  });
+
+  it('splits long paragraphs at word boundaries and keeps tables whole', () => {
+    const long = words(60, 'w');
+    const table = `| ${words(40, 't').split(' ').join(' | ')} |`;
+    const chunks = chunkElements(
+      [element(0, 'paragraph', 1, long), element(1, 'table', 1, table), element(2, 'paragraph', 1, 'After.')],
+      options
+    );
+
+    const tableChunk = chunks.find((chunk) => chunk.element_ids.includes(1))!;
+    expect(tableChunk.content).toBe(table);
+    expect(tableChunk.chars).toBeGreaterThan(100);
+    expect(chunks[chunks.length - 1].content).toBe('After.');
+
+    const textChunks = chunks.filter((chunk) => chunk.element_ids.includes(0));
+    expect(textChunks.length).toBeGreaterThanOrEqual(3);
+    for (const chunk of textChunks) {
+      expect(chunk.chars).toBeLessThanOrEqual(100);
+      expect(chunk.content).toMatch(/^w\d+( w\d+)*$/);
+    }
+    expect(textChunks[textChunks.length - 1].content.endsWith('w59')).toBe(true);
+  });
+
+  it('measures tokens at four characters each', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    const chunks = chunkElements([element(0, 'paragraph', 1, words(100, 'x'))], {
+      ...options,
+      maxSize: 50,
+      overlap: 0,
+      unit: 'tokens',
+    });
+    expect(chunks.every((chunk) => chunk.tokens <= 50)).toBe(true);
+    expect(chunks.map((chunk) => chunk.content).join(' ')).toBe(words(100, 'x'));
+  });
+});
@@ -0,0 +1,64 @@
+import { commonSchemas, parseFormattedNumber, validateExtractedData } from '..';
+
+describe('validateExtractedData', () => {
+  const invoice = commonSchemas.invoice.json_schema;
+
+  it('reports missing, null, mismatched and unexpected fields', () => {
+    const { report } = validateExtractedData(
+      {
+        company_name: 'ACME',
+        invoice_date: null,
+        total_amount: '1,234.50',
+        items: [{ name: 'Bolts', quantity: 'ten', price: 2 }],
+        currency: 'EUR',
+      },
+      invoice
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.counts).toEqual({ missing: 1, null: 1, type_mismatch: 2, unexpected: 1, coerced: 0 });
+    expect(report.issues).toEqual(
+      expect.arrayContaining([
+        { path: 'invoice_number', kind: 'missing', expected: 'string' },
+        { path: 'invoice_date', kind: 'null', expected: 'string' },
+        { path: 'total_amount', kind: 'type_mismatch', expected: 'number', value: '1,234.50' },
+        { path: 'items[0].quantity', kind: 'type_mismatch', expected: 'number', value: 'ten' },
+        { path: 'currency', kind: 'unexpected', value: 'EUR' },
+      ])
+    );
+  });
+
+  it('coerces values to the declared types when asked', () => {
+    const { data, report } = validateExtractedData(
+      {
+        company_name: 'ACME',
+        invoice_number: 1042,
+        invoice_date: '2024-01-31',
+        total_amount: '$1,234.50',
+        items: [{ name: 'Bolts', quantity: '10', price: '' }],
+      },
+      invoice,
+      { coerce: true }
+    );
+
+    expect(data).toMatchObject({
+      invoice_number: '1042',
+      total_amount: 1234.5,
+      items: [{ quantity: 10, price: null }],
+    });
+    expect(report.counts).toMatchObject({ coerced: 4, null: 1, type_mismatch: 0 });
+    expect(report.valid).toBe(false);
+  });
+
+  it.each([
+    ['1,234.50', 1234.5],
+    ['1.234,50', 1234.5],
+    ['12,5', 12.5],
+    ['USD 99', 99],
+    ['(12.00)', -12],
+    ['1 000 000', 1000000],
+    ['about 12', undefined],
+  ])('parses %s', (text, expected) => {
+    expect(parseFormattedNumber(text)).toBe(expected);
+  });
+});
@@ -0,0 +1,126 @@
+import { RateLimiter, QueueWaitUpdate, getRateLimitDelay } from '../rateLimiter';
+
+describe('RateLimiter', () => {
+  it('caps concurrent requests and starts queued callers in order', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 2, requestsPerMinute: 100 });
+    const started: number[] = [];
+
+    const releases = await Promise.all([limiter.acquire(), limiter.acquire()]);
+    const queued = [3, 4].map((id) =>
+      limiter.acquire().then((release) => {
+        started.push(id);
+        return release;
+      })
+    );
+
+    expect(limiter.inFlight).toBe(2);
+    expect(limiter.pending).toBe(2);
+
+    releases[0]();
+    const release3 = await queued[0];
+    expect(started).toEqual([3]);
+
+    releases[1]();
+    const release4 = await queued[1];
+    expect(started).toEqual([3, 4]);
+
+    release3();
+    release4();
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it('reports queue position and wait time while a caller waits', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1, requestsPerMinute: 100 });
+    const updates: QueueWaitUpdate[] = [];
+
+    const release = await limiter.acquire();
+    const queued = limiter.acquire(undefined, (update) => {
+      updates.push(update);
+    });
+
+    release();
+    (await queued)();
+
+    expect(updates).toHaveLength(2);
+    expect(updates[0]).toMatchObject({ position: 1, reason: 'concurrency' });
+    expect(updates[1].position).toBe(0);
+  });
+
+  it('holds back requests beyond the per-minute limit', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      const limiter = new RateLimiter({ maxConcurrency: 10, requestsPerMinute: 2 });
+      (await limiter.acquire())();
+      (await limiter.acquire())();
+
+      let started = false;
+      const third = limiter.acquire().then((release) => {
+        started = true;
+        release();
+      });
+
+      await jest.advanceTimersByTimeAsync(59000);
+      expect(started).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await third;
+      expect(started).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('pauses every queued caller until the retry delay has passed', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      const limiter = new RateLimiter({ maxConcurrency: 10, requestsPerMinute: 100 });
+      limiter.applyResponseHeaders({ 'retry-after': '2' });
+
+      let started = false;
+      const queued = limiter.acquire().then((release) => {
+        started = true;
+        release();
+      });
+
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(started).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await queued;
+      expect(started).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('removes an aborted caller from the queue', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1, requestsPerMinute: 100 });
+    const release = await limiter.acquire();
+    const controller = new AbortController();
+
+    const queued = limiter.acquire(controller.signal);
+    controller.abort(new Error('cancelled'));
+
+    await expect(queued).rejects.toThrow('cancelled');
+    expect(limiter.pending).toBe(0);
+    release();
+  });
+});
+
+describe('getRateLimitDelay', () => {
+  it('reads Retry-After in seconds', () => {
+    expect(getRateLimitDelay({ 'retry-after': '3' })).toBe(3000);
+  });
+
+  it('waits for the reset time once the remaining requests run out', () => {
+    expect(
+      getRateLimitDelay({ 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '1m30s' })
+    ).toBe(90000);
+    expect(getRateLimitDelay({ 'x-ratelimit-remaining-requests': '5', 'x-ratelimit-reset-requests': '1s' })).toBeUndefined();
+  });
+
+  it('ignores responses without rate-limit headers', () => {
+    expect(getRateLimitDelay({ 'content-type': 'application/json' })).toBeUndefined();
+    expect(getRateLimitDelay(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockUpstageServer, mockResponses } from '../../mock/mockUpstageServer';
+import { makeApiRequest, loadApiConfig, getApiEndpoints } from '..';
+
+describe('record/replay', () => {
+  const mock = new MockUpstageServer();
+  let homeDir: string;
+  let fixturesDir: string;
+  const dataUrl = `data:image/png;base64,${Buffer.from('secret document').toString('base64')}`;
+  const request = {
+    json: {
+      model: 'document-classify',
+      messages: [{ role: 'user', content: [{ type: 'image_url', image_url: { url: dataUrl } }] }],
+    },
+  };
+
+  beforeAll(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-upstage-test-'));
+    fixturesDir = path.join(homeDir, 'fixtures');
+    jest.spyOn(os, 'homedir').mockReturnValue(homeDir);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    process.env.UPSTAGE_CACHE_DISABLED = 'true';
+    process.env.UPSTAGE_FIXTURES_DIR = fixturesDir;
+    await mock.start();
+    loadApiConfig({ baseUrl: mock.baseUrl });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+    delete process.env.UPSTAGE_CACHE_DISABLED;
+    delete process.env.UPSTAGE_FIXTURES_DIR;
+    delete process.env.UPSTAGE_RECORD_MODE;
+    await fs.rm(homeDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded response without calling the API', async () => {
+    process.env.UPSTAGE_RECORD_MODE = 'record';
+    const recorded = await makeApiRequest(getApiEndpoints().DOCUMENT_CLASSIFICATION, 'secret-key', request);
+
+    process.env.UPSTAGE_RECORD_MODE = 'replay';
+    const replayed = await makeApiRequest(getApiEndpoints().DOCUMENT_CLASSIFICATION, 'other-key', request);
+
+    expect(replayed).toEqual(recorded);
+    expect(mock.requestsFor('DOCUMENT_CLASSIFICATION')).toHaveLength(1);
+  });
+
+  it('redacts the API key and base64 payloads from fixtures', async () => {
+    process.env.UPSTAGE_RECORD_MODE = 'record';
+    await makeApiRequest(getApiEndpoints().DOCUMENT_CLASSIFICATION, 'secret-key', request);
+
+    const [fixtureFile] = await fs.readdir(fixturesDir);
+    const fixture = await fs.readFile(path.join(fixturesDir, fixtureFile), 'utf-8');
+    expect(fixture).not.toContain('secret-key');
+    expect(fixture).not.toContain(Buffer.from('secret document').toString('base64'));
+    expect(JSON.parse(fixture).request.path).toBe('/v1/document-classification');
+  });
+
+  it('replays recorded error responses', async () => {
+    process.env.UPSTAGE_RECORD_MODE = 'record';
+    mock.enqueue('DOCUMENT_CLASSIFICATION', mockResponses.clientError(401, 'Invalid API key'));
+    await expect(
+      makeApiRequest(getApiEndpoints().DOCUMENT_CLASSIFICATION, 'bad-key', request, 'Document classification')
+    ).rejects.toThrow('Invalid API key');
+
+    process.env.UPSTAGE_RECORD_MODE = 'replay';
+    await expect(
+      makeApiRequest(getApiEndpoints().DOCUMENT_CLASSIFICATION, 'bad-key', request, 'Document classification')
+    ).rejects.toThrow('Document classification failed: Invalid API key');
+  });
+
+  it('fails without retrying when no fixture matches', async () => {
+    process.env.UPSTAGE_RECORD_MODE = 'replay';
+
+    await expect(
+      makeApiRequest(getApiEndpoints().DOCUMENT_CLASSIFICATION, 'test-key', request)
+    ).rejects.toThrow('No recorded fixture for /v1/document-classification');
+    expect(mock.requests).toHaveLength(0);
+  });
+});
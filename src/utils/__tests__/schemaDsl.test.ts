@@ -0,0 +1,75 @@
+import { parseSchemaSpec, SchemaSpecError } from '..';
+
+describe('parseSchemaSpec', () => {
+  it('expands fields, lists and nested objects', () => {
+    const schema = parseSchemaSpec(
+      [
+        'invoice_number: string "Invoice number"',
+        'total_amount: number   # before tax',
+        'tags: string[]',
+        'items[]: {name: string "Item name", qty: int} "Line items"',
+        'vendor: "Vendor name"',
+      ].join('\n'),
+      'invoice'
+    );
+
+    expect(schema).toEqual({
+      type: 'json_schema',
+      json_schema: {
+        name: 'invoice',
+        schema: {
+          type: 'object',
+          properties: {
+            invoice_number: { type: 'string', description: 'Invoice number' },
+            total_amount: { type: 'number' },
+            tags: { type: 'array', items: { type: 'string' } },
+            items: {
+              type: 'array',
+              description: 'Line items',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string', description: 'Item name' },
+                  qty: { type: 'integer' },
+                },
+              },
+            },
+            vendor: { type: 'string', description: 'Vendor name' },
+          },
+        },
+      },
+    });
+  });
+
+  it('accepts a field map, braces and the full envelope', () => {
+    expect(parseSchemaSpec('{"vendor": "Vendor name"}').json_schema.schema.properties).toEqual({
+      vendor: { type: 'string', description: 'Vendor name' },
+    });
+    expect(Object.keys(parseSchemaSpec('{name: string, qty: number}').json_schema.schema.properties)).toEqual([
+      'name',
+      'qty',
+    ]);
+
+    const full = parseSchemaSpec('invoice_number: string');
+    expect(parseSchemaSpec(JSON.stringify(full))).toEqual(full);
+  });
+
+  it.each([
+    ['total: numbr', 1, 8, 'Unknown type "numbr"'],
+    ['name: string\nitems[]: {qty: number', 2, 22, 'Expected "}"'],
+    ['name string', 1, 6, 'Expected ":" after the field name'],
+    ['a: string\na: number', 2, 1, 'Duplicate field "a"'],
+    ['note: string "open', 1, 14, 'Unterminated string'],
+  ])('reports the position of errors in %j', (spec, line, column, message) => {
+    let error: unknown;
+    try {
+      parseSchemaSpec(spec);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(SchemaSpecError);
+    expect(error).toMatchObject({ line, column });
+    expect((error as Error).message).toContain(message);
+  });
+});
@@ -0,0 +1,120 @@
+import { editSchema, diffSchemas, createExtractionSchema, ValidationError } from '..';
+
+const invoice = createExtractionSchema(
+  {
+    invoice_number: { type: 'string', description: 'Invoice number' },
+    vendor_name: { type: 'string' },
+    vendor_address: { type: 'string' },
+    total: { type: 'string', description: 'Total' },
+    items: {
+      type: 'array',
+      items: { type: 'object', properties: { name: { type: 'string' }, qty: { type: 'number' } } },
+    },
+  },
+  'invoice'
+).json_schema;
+
+describe('editSchema', () => {
+  it('applies operations in order and reports the changed fields', () => {
+    const edited = editSchema(invoice, [
+      { op: 'add', path: 'due_date', type: 'string', description: 'Due date' },
+      { op: 'add', path: 'items[].unit', type: 'string' },
+      { op: 'remove', path: 'items[].qty' },
+      { op: 'rename', path: 'invoice_number', new_name: 'number' },
+      { op: 'set_type', path: 'total', type: 'number' },
+      { op: 'set_description', path: 'total', description: 'Total amount due' },
+      { op: 'nest', paths: ['vendor_name', 'vendor_address'], under: 'vendor', description: 'Vendor' },
+      { op: 'rename', path: 'vendor.vendor_name', new_name: 'name' },
+      { op: 'wrap_array', path: 'number', description: 'Invoice numbers' },
+    ]);
+
+    const properties = edited.schema.properties;
+    expect(Object.keys(properties)).toEqual(['number', 'vendor', 'total', 'items', 'due_date']);
+    expect(properties.number).toEqual({
+      type: 'array',
+      description: 'Invoice numbers',
+      items: { type: 'string' },
+    });
+    expect(properties.vendor).toEqual({
+      type: 'object',
+      description: 'Vendor',
+      properties: { name: { type: 'string' }, vendor_address: { type: 'string' } },
+    });
+    expect(properties.total).toEqual({ type: 'number', description: 'Total amount due' });
+    expect(properties.items.items.properties).toEqual({ name: { type: 'string' }, unit: { type: 'string' } });
+
+    // The input is left untouched
+    expect(Object.keys(invoice.schema.properties)).toContain('invoice_number');
+
+    const diff = diffSchemas(invoice, edited);
+    expect(diff).toEqual(
+      expect.arrayContaining([
+        { path: 'invoice_number', change: 'removed', before: { type: 'string', description: 'Invoice number' } },
+        {
+          path: 'number',
+          change: 'added',
+          after: { type: 'array<string>', description: 'Invoice numbers' },
+        },
+        {
+          path: 'total',
+          change: 'modified',
+          before: { type: 'string', description: 'Total' },
+          after: { type: 'number', description: 'Total amount due' },
+        },
+        { path: 'items[].qty', change: 'removed', before: { type: 'number' } },
+        { path: 'items[].unit', change: 'added', after: { type: 'string' } },
+        { path: 'vendor.name', change: 'added', after: { type: 'string' } },
+      ])
+    );
+    expect(diff.find((entry) => entry.path === 'items')).toBeUndefined();
+  });
+
+  it('names the failing operation and applies none of them', () => {
+    let caught: unknown;
+    try {
+      editSchema(invoice, [
+        { op: 'remove', path: 'total' },
+        { op: 'rename', path: 'missing', new_name: 'other' },
+      ]);
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(ValidationError);
+    expect((caught as Error).message).toBe('Operation 2 (rename) failed: Field not found: missing');
+    expect(invoice.schema.properties.total).toBeDefined();
+  });
+
+  it('rejects nesting a field inside one of its own fields', () => {
+    const vendor = createExtractionSchema(
+      {
+        vendor: { type: 'object', properties: { name: { type: 'string' } } },
+        items: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } },
+        total: { type: 'number' },
+      },
+      'invoice'
+    ).json_schema;
+
+    expect(() => editSchema(vendor, [{ op: 'nest', paths: ['vendor'], under: 'vendor.address' }])).toThrow(
+      'Operation 1 (nest) failed: Cannot nest vendor inside vendor.address, which it contains'
+    );
+    expect(() => editSchema(vendor, [{ op: 'nest', paths: ['items', 'total'], under: 'items[].meta' }])).toThrow(
+      'Cannot nest items inside items[].meta, which it contains'
+    );
+    expect(Object.keys(vendor.schema.properties)).toEqual(['vendor', 'items', 'total']);
+  });
+
+  it('rejects invalid paths and invalid results', () => {
+    expect(() => editSchema(invoice, [{ op: 'add', path: 'total.amount', type: 'number' }])).toThrow(
+      'Field total is not an object'
+    );
+    expect(() =>
+      editSchema(invoice, [{ op: 'nest', paths: ['vendor_name'], under: 'vendor_name' }])
+    ).toThrow('Cannot nest vendor_name inside itself');
+
+    const unnamed = { schema: { type: 'object', properties: {} } };
+    expect(() => editSchema(unnamed, [{ op: 'add', path: 'total', type: 'number' }])).toThrow(
+      'Edited schema is invalid: Schema must have a "name" property'
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createExtractionSchema,
+  saveNamedSchema,
+  getNamedSchema,
+  listNamedSchemas,
+  deleteNamedSchema,
+  hasNamedSchema,
+} from '..';
+
+describe('schema library', () => {
+  let homeDir: string;
+
+  beforeAll(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-upstage-test-'));
+    jest.spyOn(os, 'homedir').mockReturnValue(homeDir);
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  it('starts with the built-in schemas', async () => {
+    const schemas = await listNamedSchemas();
+
+    expect(schemas.map((schema) => schema.name)).toEqual(['businessCard', 'contract', 'invoice', 'receipt']);
+    expect(schemas.find((schema) => schema.name === 'contract')?.fields).toContainEqual({
+      name: 'parties',
+      type: 'array<object>',
+      description: 'Parties involved in the contract',
+    });
+  });
+
+  it('keeps a version history', async () => {
+    const first = createExtractionSchema({ patient: { type: 'string', description: 'Patient name' } }, 'lab');
+    const second = createExtractionSchema({ ...first.json_schema.schema.properties, result: { type: 'number' } }, 'lab');
+
+    await saveNamedSchema('lab_report', first, { description: 'Lab reports' });
+    // The json_schema part alone is accepted too
+    const saved = await saveNamedSchema('lab_report', second.json_schema, { note: 'Add result' });
+    const unchanged = await saveNamedSchema('lab_report', second);
+
+    expect(saved).toMatchObject({ version: 2, latest_version: 2, description: 'Lab reports' });
+    expect(unchanged.versions).toHaveLength(2);
+    expect((await getNamedSchema('lab_report', 1)).schema).toEqual(first.json_schema);
+    expect((await getNamedSchema('lab_report')).fields.map((field) => field.name)).toEqual(['patient', 'result']);
+  });
+
+  it('deletes a schema', async () => {
+    await saveNamedSchema('temporary', createExtractionSchema({ id: { type: 'string' } }));
+
+    expect(await deleteNamedSchema('temporary')).toBe(1);
+    expect(await hasNamedSchema('temporary')).toBe(false);
+    await expect(getNamedSchema('temporary')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('rejects invalid names and schemas', async () => {
+    await expect(saveNamedSchema('../escape', createExtractionSchema({}))).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+    });
+    await expect(saveNamedSchema('broken', { name: 'broken' })).rejects.toMatchObject({ code: 'INVALID_SCHEMA' });
+  });
+});
@@ -0,0 +1,53 @@
+import { parseHtmlTable, tableToCsv } from '..';
+
+describe('parseHtmlTable', () => {
+  it('expands rowspan and colspan into a full grid with named columns', () => {
+    const grid = parseHtmlTable(
+      "<table id='3'><thead>" +
+        "<tr><th rowspan='2'>Region</th><th colspan=\"2\">2024</th></tr>" +
+        '<tr><th>Q1</th><th>Q2</th></tr>' +
+        '</thead><tbody>' +
+        "<tr><td rowspan='2'>North</td><td>1,200</td><td>1&nbsp;300</td></tr>" +
+        '<tr><td>900</td><td><b>950</b><br>est.</td></tr>' +
+        '<tr><td>South &amp; East</td><td colspan="2">n/a</td></tr>' +
+        '</tbody></table>'
+    );
+
+    expect(grid.header_rows).toBe(2);
+    expect(grid.columns).toEqual(['Region', '2024 / Q1', '2024 / Q2']);
+    expect(grid.rows).toEqual([
+      ['Region', '2024', '2024'],
+      ['Region', 'Q1', 'Q2'],
+      ['North', '1,200', '1 300'],
+      ['North', '900', '950 est.'],
+      ['South & East', 'n/a', 'n/a'],
+    ]);
+    expect(grid.records[2]).toEqual({ Region: 'South & East', '2024 / Q1': 'n/a', '2024 / Q2': 'n/a' });
+  });
+
+  it('takes leading rows of header cells as the header and pads short rows', () => {
+    const grid = parseHtmlTable(
+      '<table><tr><th>Item</th><th>Item</th><th></th></tr><tr><td>Pen</td><td>Blue</td></tr></table>'
+    );
+
+    expect(grid.header_rows).toBe(1);
+    expect(grid.columns).toEqual(['Item', 'Item_2', 'column_3']);
+    expect(grid.rows[1]).toEqual(['Pen', 'Blue', '']);
+  });
+
+  it('names columns by position when there is no header', () => {
+    const grid = parseHtmlTable('<table><tr><td>a</td><td>b</td></tr></table>');
+
+    expect(grid.header_rows).toBe(0);
+    expect(grid.columns).toEqual(['column_1', 'column_2']);
+    expect(grid.records).toEqual([{ column_1: 'a', column_2: 'b' }]);
+  });
+});
+
+describe('tableToCsv', () => {
+  it('quotes values with commas, quotes and line breaks', () => {
+    expect(tableToCsv([['a', '1,200'], ['say "hi"', 'two\nlines']])).toBe(
+      'a,"1,200"\r\n"say ""hi""","two\nlines"'
+    );
+  });
+});
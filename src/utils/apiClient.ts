@@ -1,20 +1,38 @@
 import axios, { AxiosError, AxiosRequestConfig } from 'axios';
 import FormData from 'form-data';
 import * as retry from 'retry';
-import { createReadStream } from 'fs';
+import { createReadStream, promises as fs } from 'fs';
 import { API_CONFIG } from './constants';
+import {
+  computeCacheKey,
+  getCachedResult,
+  setCachedResult,
+  getCachedOutputPath,
+  setCachedOutputPath,
+  isCacheEnabled,
+} from './resultCache';
+import { isOutputPath } from './fileUtils';
+import { getRecordMode, recordExchange, replayExchange, FixtureNotFoundError } from './recorder';
+import { getRateLimiter, QueueWaitCallback } from './rateLimiter';
+import { CancelledError, TimeoutError, UpstageApiError } from './errors';
 
 interface ApiRequestOptions {
   apiKey: string;
+  method?: 'GET' | 'POST';
   files?: Record<string, any>;
   data?: Record<string, any>;
   json?: Record<string, any>;
+  signal?: AbortSignal;
+  /** Serve and store the response through the result cache */
+  useCache?: boolean;
+  /** Notified while the request waits for a rate limit slot */
+  onQueueWait?: QueueWaitCallback;
 }
 
 export class ApiClient {
   private readonly headers: Record<string, string>;
 
-  constructor(apiKey: string) {
+  constructor(private readonly apiKey: string) {
     this.headers = {
       'Authorization': `Bearer ${apiKey}`,
       'x-upstage-client': 'mcp',
@@ -33,25 +51,63 @@ export class ApiClient {
       maxTimeout: API_CONFIG.RETRY_DELAY * 4,
     });
 
+    const { signal, onQueueWait } = options;
+    const limiter = getRateLimiter(this.apiKey, url);
+
     return new Promise((resolve, reject) => {
+      // Stop pending retries and fail fast when the caller cancels
+      const onAbort = () => {
+        retryOperation.stop();
+        reject(new CancelledError(`${operation} cancelled`));
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const settle = <T>(callback: (value: T) => void, value: T) => {
+        signal?.removeEventListener('abort', onAbort);
+        callback(value);
+      };
+
       retryOperation.attempt(async (currentAttempt) => {
+        let release: (() => void) | undefined;
         try {
+          // Every attempt, including retries, queues for a slot
+          release = await limiter.acquire(signal, onQueueWait);
           const response = await this.sendRequest(url, options);
-          resolve(response.data);
+          limiter.applyResponseHeaders(response.headers);
+          settle(resolve, response.data);
         } catch (error) {
+          if (signal?.aborted) {
+            // Already rejected by onAbort
+            return;
+          }
+
+          // Retrying cannot produce a fixture that was never recorded
+          if (error instanceof FixtureNotFoundError) {
+            settle(reject, error);
+            return;
+          }
+
           if (error instanceof AxiosError) {
-            const message = error.response?.data?.message || error.message;
-            const status = error.response?.status;
+            // Retry-After and exhausted rate-limit headers hold back every request sharing the limiter
+            limiter.applyResponseHeaders(error.response?.headers);
+            
+            const retryError = isTimeout(error)
+              ? new TimeoutError(`${operation} timed out after ${API_CONFIG.TIMEOUT / 1000}s`, API_CONFIG.TIMEOUT, { cause: error })
+              : UpstageApiError.fromAxiosError(error, operation);
             
             // Don't retry client errors (except rate limiting)
-            if (status && status >= 400 && status < 500 && status !== 429) {
-              reject(new Error(`${operation} failed: ${message}`));
+            if (!retryError.retryable) {
+              settle(reject, retryError);
               return;
             }
             
-            const retryError = new Error(`${operation} failed: ${message}`);
             if (!retryOperation.retry(retryError)) {
-              reject(retryOperation.mainError() || retryError);
+              settle(reject, retryOperation.mainError() || retryError);
               return;
             }
             
@@ -61,20 +117,50 @@ export class ApiClient {
           } else {
             const err = error instanceof Error ? error : new Error(String(error));
             if (!retryOperation.retry(err)) {
-              reject(retryOperation.mainError() || err);
+              settle(reject, retryOperation.mainError() || err);
             }
           }
+        } finally {
+          release?.();
         }
       });
     });
   }
 
   private async sendRequest(url: string, options: ApiRequestOptions): Promise<any> {
+    const mode = getRecordMode();
+
+    if (mode === 'replay') {
+      return replayExchange(url, options);
+    }
+
+    if (mode === 'record') {
+      try {
+        const response = await this.performRequest(url, options);
+        await recordExchange(url, options, response.status, response.data);
+        return response;
+      } catch (error) {
+        if (error instanceof AxiosError && error.response) {
+          await recordExchange(url, options, error.response.status, error.response.data);
+        }
+        throw error;
+      }
+    }
+
+    return this.performRequest(url, options);
+  }
+
+  private async performRequest(url: string, options: ApiRequestOptions): Promise<any> {
     const config: AxiosRequestConfig = {
       timeout: API_CONFIG.TIMEOUT,
       headers: { ...this.headers },
+      signal: options.signal,
     };
 
+    if (options.method === 'GET') {
+      return axios.get(url, config);
+    }
+
     if (options.files) {
       // Handle file upload with FormData
       const formData = new FormData();
@@ -119,12 +205,143 @@ export class ApiClient {
   }
 }
 
+function isTimeout(error: AxiosError): boolean {
+  return error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT;
+}
+
+/**
+ * Download a JSON document from a pre-signed URL (no Upstage auth headers)
+ * @param url - Download URL returned by the API
+ * @param signal - Optional abort signal
+ * @returns Parsed JSON body
+ */
+export async function downloadJson(url: string, signal?: AbortSignal): Promise<any> {
+  try {
+    const response = await axios.get(url, { timeout: API_CONFIG.TIMEOUT, signal });
+    return response.data;
+  } catch (error) {
+    if (error instanceof AxiosError && !signal?.aborted) {
+      throw UpstageApiError.fromAxiosError(error, 'Result download');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Cache key of each result makeApiRequest served from or stored in the cache
+ */
+const resultCacheKeys = new WeakMap<object, string>();
+
+function rememberCacheKey(result: any, cacheKey: string): void {
+  if (result && typeof result === 'object') {
+    resultCacheKeys.set(result, cacheKey);
+  }
+}
+
 export async function makeApiRequest(
   url: string,
   apiKey: string,
   options: Omit<ApiRequestOptions, 'apiKey'>,
   operation?: string
 ): Promise<any> {
+  const { useCache, ...requestOptions } = options;
+  
+  const cacheKey = useCache && isCacheEnabled()
+    ? await computeCacheKey(url, requestOptions, apiKey)
+    : undefined;
+  
+  if (cacheKey) {
+    const cached = await getCachedResult(cacheKey);
+    if (cached !== undefined) {
+      if (process.env.NODE_ENV === 'development' || process.env.DEBUG) {
+        console.error(`${operation || 'API request'} served from cache (${cacheKey})`);
+      }
+      rememberCacheKey(cached, cacheKey);
+      return cached;
+    }
+  }
+  
   const client = new ApiClient(apiKey);
-  return client.makeRequest(url, { ...options, apiKey }, operation);
+  const result = await client.makeRequest(url, { ...requestOptions, apiKey }, operation);
+  
+  if (cacheKey) {
+    await setCachedResult(cacheKey, url, operation || 'API request', result, apiKey);
+    rememberCacheKey(result, cacheKey);
+  }
+  
+  return result;
+}
+
+/**
+ * Parse the JSON a model returned as its message content
+ * @param content - Message content of the first choice
+ * @param operation - Operation name used in the message
+ * @returns Parsed JSON value
+ * @throws UpstageApiError with code UPSTAGE_INVALID_RESPONSE if the content is not valid JSON
+ */
+export function parseJsonContent(content: unknown, operation: string): any {
+  try {
+    return JSON.parse(content as string);
+  } catch (error) {
+    throw new UpstageApiError(`${operation} returned content that is not valid JSON`, {
+      code: 'UPSTAGE_INVALID_RESPONSE',
+      hint: 'Call the tool again with no_cache set to true; the model output may differ on another attempt',
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Parse model output that must be a JSON object
+ * @param content - Message content returned by the model
+ * @param operation - Operation name for the error message
+ * @returns The parsed object
+ * @throws UpstageApiError with code UPSTAGE_INVALID_RESPONSE if the content is not a JSON object
+ */
+export function parseJsonObjectContent(content: unknown, operation: string): Record<string, any> {
+  const parsed = parseJsonContent(content, operation);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new UpstageApiError(`${operation} returned ${Array.isArray(parsed) ? 'an array' : 'a JSON value'} instead of an object`, {
+      code: 'UPSTAGE_INVALID_RESPONSE',
+      hint: 'Call the tool again with no_cache set to true; the model output may differ on another attempt',
+    });
+  }
+  return parsed;
+}
+
+/**
+ * Find the output file a tool already saved from the same cached API result
+ * @param apiResult - Result returned by makeApiRequest
+ * @param kind - Kind of output, e.g. the tool and the options that shape the saved file
+ * @returns Path of the saved file, or undefined if the result was not cached or the file is gone
+ */
+export async function findSavedOutput(apiResult: any, kind: string): Promise<string | undefined> {
+  const cacheKey = apiResult && typeof apiResult === 'object' ? resultCacheKeys.get(apiResult) : undefined;
+  if (!cacheKey) {
+    return undefined;
+  }
+  const outputPath = await getCachedOutputPath(cacheKey, kind);
+  // A file saved for another client is not reused
+  if (!outputPath || !isOutputPath(outputPath)) {
+    return undefined;
+  }
+  try {
+    await fs.access(outputPath);
+    return outputPath;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Remember the output file saved from a cached API result, for findSavedOutput
+ * @param apiResult - Result returned by makeApiRequest
+ * @param kind - Kind of output, as passed to findSavedOutput
+ * @param outputPath - Path of the saved file
+ */
+export async function recordSavedOutput(apiResult: any, kind: string, outputPath: string): Promise<void> {
+  const cacheKey = apiResult && typeof apiResult === 'object' ? resultCacheKeys.get(apiResult) : undefined;
+  if (cacheKey) {
+    await setCachedOutputPath(cacheKey, kind, outputPath);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,221 @@
+/**
+ * Upstage API endpoint configuration
+ *
+ * Endpoints resolve from, in order of precedence: CLI flags, environment variables,
+ * the config file and the built-in defaults.
+ *
+ * Client-side rate limits apply per API key and endpoint; the config file's
+ * "default" entry and the UPSTAGE_MAX_CONCURRENCY / UPSTAGE_REQUESTS_PER_MINUTE
+ * variables set every endpoint, and entries named after an endpoint override them.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import os from 'os';
+import { API_ENDPOINT_PATHS, DEFAULT_API_BASE_URL, RATE_LIMIT_CONFIG } from './constants';
+
+export type ApiEndpointName = keyof typeof API_ENDPOINT_PATHS;
+
+export type ApiEndpoints = Record<ApiEndpointName, string>;
+
+export interface ApiConfigOptions {
+  /** Base URL from the --base-url CLI flag */
+  baseUrl?: string;
+  /** Config file path from the --config CLI flag */
+  configPath?: string;
+}
+
+export interface AuthTokenConfig {
+  token: string;
+  /** Team or client name reported in logs */
+  name?: string;
+  /** Upstage API key billed for requests made with this token */
+  upstageApiKey?: string;
+}
+
+export interface OAuthConfig {
+  /** Authorization server issuer URL advertised in protected resource metadata */
+  issuer: string;
+  /** RFC 7662 token introspection endpoint */
+  introspectionEndpoint: string;
+  clientId?: string;
+  clientSecret?: string;
+  requiredScopes?: string[];
+  /** Upstage API keys keyed by OAuth client id */
+  upstageApiKeys?: Record<string, string>;
+}
+
+export interface HttpConfig {
+  /** Public URL of the MCP server, used in OAuth metadata */
+  publicUrl?: string;
+  auth?: {
+    tokens?: AuthTokenConfig[];
+    oauth?: OAuthConfig;
+  };
+  cors?: {
+    allowedOrigins?: string[];
+  };
+}
+
+export interface RateLimitSettings {
+  /** Requests in flight at the same time */
+  maxConcurrency: number;
+  /** Requests started within any 60 second window */
+  requestsPerMinute: number;
+}
+
+export interface ServerConfigFile {
+  baseUrl?: string;
+  /** Absolute URLs, or paths relative to baseUrl, keyed by endpoint name */
+  endpoints?: Record<string, string>;
+  /** Rate limits keyed by endpoint name, or "default" for every endpoint */
+  rateLimits?: Record<string, Partial<RateLimitSettings>>;
+  /** Extraction schema reference or inline schema keyed by document category, used by process_document */
+  categorySchemas?: Record<string, string | Record<string, any>>;
+  http?: HttpConfig;
+}
+
+let resolvedEndpoints: ApiEndpoints | undefined;
+let resolvedRateLimits: Record<string, Partial<RateLimitSettings>> = {};
+let resolvedCategorySchemas: Record<string, string | Record<string, any>> = {};
+
+export function getDefaultConfigPath(): string {
+  return path.join(os.homedir(), '.mcp-upstage', 'config.json');
+}
+
+function readConfigFile(configPath: string, required: boolean): ServerConfigFile {
+  let content: string;
+  try {
+    content = readFileSync(configPath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT' && !required) {
+      return {};
+    }
+    throw new Error(`Cannot read config file ${configPath}: ${error.message}`);
+  }
+
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in config file ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function joinUrl(baseUrl: string, endpoint: string): string {
+  if (/^https?:\/\//.test(endpoint)) {
+    return endpoint;
+  }
+  return `${baseUrl}/${endpoint.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Read the server config file
+ * @param configPath - Path from the --config CLI flag; falls back to UPSTAGE_CONFIG, then the default path
+ * @returns Parsed config, or an empty config if the default file does not exist
+ * @throws Error if an explicitly requested config file cannot be read
+ */
+export function loadConfigFile(configPath?: string): ServerConfigFile {
+  const explicitConfigPath = configPath || process.env.UPSTAGE_CONFIG;
+  return readConfigFile(explicitConfigPath || getDefaultConfigPath(), !!explicitConfigPath);
+}
+
+/**
+ * Resolve the Upstage API endpoints and make them the active configuration
+ * @param options - Values taken from CLI flags
+ * @returns The resolved endpoint URLs
+ * @throws Error if an explicitly requested config file cannot be read
+ */
+export function loadApiConfig(options: ApiConfigOptions = {}): ApiEndpoints {
+  const fileConfig = loadConfigFile(options.configPath);
+
+  const baseUrl = (
+    options.baseUrl ||
+    process.env.UPSTAGE_BASE_URL ||
+    fileConfig.baseUrl ||
+    DEFAULT_API_BASE_URL
+  ).replace(/\/+$/, '');
+
+  const endpoints = {} as ApiEndpoints;
+  for (const name of Object.keys(API_ENDPOINT_PATHS) as ApiEndpointName[]) {
+    const override =
+      process.env[`UPSTAGE_ENDPOINT_${name}`] ||
+      fileConfig.endpoints?.[name] ||
+      fileConfig.endpoints?.[name.toLowerCase()];
+
+    endpoints[name] = joinUrl(baseUrl, override || API_ENDPOINT_PATHS[name]);
+  }
+
+  resolvedEndpoints = endpoints;
+  resolvedRateLimits = fileConfig.rateLimits || {};
+  resolvedCategorySchemas = fileConfig.categorySchemas || {};
+  return endpoints;
+}
+
+/**
+ * Get the active endpoint URLs, resolving them from the environment on first use
+ */
+export function getApiEndpoints(): ApiEndpoints {
+  return resolvedEndpoints ?? loadApiConfig();
+}
+
+/**
+ * Find the endpoint a request URL belongs to
+ * @param url - Request URL, possibly with a path suffix such as a job ID
+ * @returns The endpoint name, or undefined for URLs outside the configured endpoints
+ */
+export function getEndpointName(url: string): ApiEndpointName | undefined {
+  const endpoints = getApiEndpoints();
+  let match: ApiEndpointName | undefined;
+
+  // Longest match wins, so requests/<id> maps to DOCUMENT_DIGITIZATION_REQUESTS
+  for (const name of Object.keys(endpoints) as ApiEndpointName[]) {
+    const endpoint = endpoints[name];
+    if ((url === endpoint || url.startsWith(`${endpoint}/`)) && (!match || endpoint.length > endpoints[match].length)) {
+      match = name;
+    }
+  }
+
+  return match;
+}
+
+function readPositiveInt(value: string | undefined): number | undefined {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Get the client-side rate limits for an endpoint
+ * @param endpointName - Endpoint name, or undefined for URLs outside the configured endpoints
+ * @returns Limits from the endpoint's config entry, the environment, the "default" entry or the built-in defaults
+ */
+export function getRateLimitSettings(endpointName?: string): RateLimitSettings {
+  if (!resolvedEndpoints) {
+    loadApiConfig();
+  }
+
+  const fileDefault = resolvedRateLimits.default || {};
+  const fileEndpoint = (endpointName && resolvedRateLimits[endpointName]) || {};
+
+  return {
+    maxConcurrency:
+      fileEndpoint.maxConcurrency ||
+      readPositiveInt(process.env.UPSTAGE_MAX_CONCURRENCY) ||
+      fileDefault.maxConcurrency ||
+      RATE_LIMIT_CONFIG.MAX_CONCURRENCY,
+    requestsPerMinute:
+      fileEndpoint.requestsPerMinute ||
+      readPositiveInt(process.env.UPSTAGE_REQUESTS_PER_MINUTE) ||
+      fileDefault.requestsPerMinute ||
+      RATE_LIMIT_CONFIG.REQUESTS_PER_MINUTE,
+  };
+}
+
+/**
+ * Get the category to extraction schema mapping from the config file
+ */
+export function getCategorySchemaMap(): Record<string, string | Record<string, any>> {
+  if (!resolvedEndpoints) {
+    loadApiConfig();
+  }
+  return resolvedCategorySchemas;
+}
@@ -1,8 +1,15 @@
-export const API_ENDPOINTS = {
-  DOCUMENT_DIGITIZATION: 'https://api.upstage.ai/v1/document-digitization',
-  INFORMATION_EXTRACTION: 'https://api.upstage.ai/v1/information-extraction',
-  SCHEMA_GENERATION: 'https://api.upstage.ai/v1/information-extraction/schema-generation',
-  DOCUMENT_CLASSIFICATION: 'https://api.upstage.ai/v1/document-classification',
+export const DEFAULT_API_BASE_URL = 'https://api.upstage.ai/v1';
+
+/**
+ * Endpoint paths relative to the API base URL (see getApiEndpoints for the resolved URLs)
+ */
+export const API_ENDPOINT_PATHS = {
+  DOCUMENT_DIGITIZATION: '/document-digitization',
+  DOCUMENT_DIGITIZATION_ASYNC: '/document-digitization/async',
+  DOCUMENT_DIGITIZATION_REQUESTS: '/document-digitization/requests',
+  INFORMATION_EXTRACTION: '/information-extraction',
+  SCHEMA_GENERATION: '/information-extraction/schema-generation',
+  DOCUMENT_CLASSIFICATION: '/document-classification',
 } as const;
 
 export const ALLOWED_EXTENSIONS = {
@@ -13,10 +20,61 @@ export const ALLOWED_EXTENSIONS = {
 export const FILE_LIMITS = {
   MAX_SIZE: 50 * 1024 * 1024, // 50MB
   MAX_PAGES: 100,
+  ASYNC_MAX_PAGES: 1000,
 } as const;
 
 export const API_CONFIG = {
   TIMEOUT: 5 * 60 * 1000, // 5 minutes in milliseconds
   RETRY_ATTEMPTS: 3,
   RETRY_DELAY: 1000, // 1 second initial delay
-} as const;
\ No newline at end of file
+} as const;
+export const DOCUMENT_PARSE_OPTIONS = {
+  MODELS: ['document-parse', 'document-parse-250618', 'document-parse-250404', 'document-parse-nightly'],
+  OCR_MODES: ['auto', 'force'],
+  OUTPUT_FORMATS: ['html', 'markdown', 'text'],
+  ELEMENT_CATEGORIES: [
+    'table',
+    'figure',
+    'chart',
+    'equation',
+    'heading1',
+    'header',
+    'footer',
+    'caption',
+    'paragraph',
+    'list',
+    'index',
+    'footnote',
+  ],
+} as const;
+
+export const DOCUMENT_PARSE_DEFAULTS = {
+  MODEL: 'document-parse',
+  OCR: 'force',
+  BASE64_ENCODING: ['table'],
+} as const;
+
+export const CACHE_CONFIG = {
+  TTL: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
+  MAX_SIZE: 500 * 1024 * 1024, // 500MB
+} as const;
+
+export const BATCH_LIMITS = {
+  MAX_FILES: 1000,
+  MAX_CONCURRENCY: 16,
+  DEFAULT_CONCURRENCY: 4,
+  MAX_SCHEMA_SAMPLES: 20,
+} as const;
+
+export const CHUNK_DEFAULTS = {
+  MAX_TOKENS: 800,
+  OVERLAP_TOKENS: 80,
+  MAX_CHARS: 3200,
+  OVERLAP_CHARS: 320,
+} as const;
+
+export const RATE_LIMIT_CONFIG = {
+  MAX_CONCURRENCY: 4, // In-flight requests per API key and endpoint
+  REQUESTS_PER_MINUTE: 100, // Requests started per API key and endpoint
+  QUEUE_PROGRESS_INTERVAL: 5000, // 5 seconds between queue wait progress updates
+} as const;
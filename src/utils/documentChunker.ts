@@ -0,0 +1,223 @@
+/**
+ * Split parsed documents into chunks for retrieval
+ *
+ * Chunks follow the document structure: a heading always starts a new chunk, and each
+ * chunk records the headings it sits under. Elements are packed into chunks up to the
+ * maximum size; a paragraph is only split when it is larger than a chunk on its own.
+ * Tables are never split, so a large table becomes a chunk of its own that may exceed
+ * the maximum. Consecutive chunks of a section share up to `overlap` of trailing text.
+ */
+
+import { elementContent, ElementFormat } from './parseResults';
+
+export type ChunkSizeUnit = 'tokens' | 'chars';
+
+export interface ChunkOptions {
+  /** Maximum chunk size in the given unit */
+  maxSize: number;
+  /** Text repeated from the end of the previous chunk of the same section */
+  overlap: number;
+  unit: ChunkSizeUnit;
+  format: ElementFormat;
+}
+
+export interface DocumentChunk {
+  /** 0-based position of the chunk in the document */
+  index: number;
+  content: string;
+  pages: number[];
+  element_ids: number[];
+  /** Headings the chunk sits under, outermost first */
+  heading_path: string[];
+  /** Estimated token count */
+  tokens: number;
+  chars: number;
+}
+
+interface ChunkPart {
+  text: string;
+  kind: 'heading' | 'text' | 'table' | 'overlap';
+  page?: number;
+  id?: number;
+}
+
+/** Page furniture repeated on every page adds nothing to retrieval */
+const SKIPPED_CATEGORIES = new Set(['header', 'footer']);
+
+const SEPARATOR = '\n\n';
+
+/**
+ * Rough token count for English and code: about four characters per token
+ * @param text - Text to measure
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function headingLevel(category: string): number | undefined {
+  const match = category?.match(/^heading(\d*)$/);
+  return match ? Number(match[1]) || 1 : undefined;
+}
+
+/**
+ * Longest prefix of text that still fits, cut at whitespace when possible
+ */
+function takePrefix(text: string, fits: (candidate: string) => boolean): string {
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (fits(text.slice(0, middle))) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  if (low >= text.length) {
+    return text;
+  }
+  // Always make progress, even if not a single character fits
+  if (low === 0) {
+    return text.slice(0, 1);
+  }
+
+  const boundary = text.slice(0, low + 1).search(/\s\S*$/);
+  return boundary > 0 ? text.slice(0, boundary) : text.slice(0, low);
+}
+
+/**
+ * Longest suffix of text within the overlap size, starting at a word
+ */
+function takeSuffix(text: string, overlap: number, measure: (value: string) => number): string {
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (measure(text.slice(text.length - middle)) <= overlap) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  const suffix = text.slice(text.length - low);
+  if (low === text.length) {
+    return suffix;
+  }
+  const wordStart = suffix.search(/\s\S/);
+  return wordStart >= 0 ? suffix.slice(wordStart + 1) : '';
+}
+
+/**
+ * Split the elements of a parse result into chunks
+ * @param elements - Elements of a parse result, in reading order
+ * @param options - Chunk size, overlap, size unit and content format
+ * @returns Chunks in document order
+ */
+export function chunkElements(elements: Record<string, any>[], options: ChunkOptions): DocumentChunk[] {
+  const { maxSize, overlap, unit, format } = options;
+  const measure = unit === 'tokens' ? estimateTokens : (text: string) => text.length;
+  const join = (parts: ChunkPart[]) => parts.map((part) => part.text).join(SEPARATOR);
+  const fits = (parts: ChunkPart[], text: string) => measure(join([...parts, { text, kind: 'text' }])) <= maxSize;
+
+  const chunks: DocumentChunk[] = [];
+  const headings: { level: number; text: string }[] = [];
+  let headingPath: string[] = [];
+  let current: ChunkPart[] = [];
+
+  const hasBody = () => current.some((part) => part.kind === 'text' || part.kind === 'table');
+
+  /**
+   * Emit the current chunk and start the next, seeded with overlap from the same section
+   */
+  const flush = (withOverlap: boolean) => {
+    if (current.some((part) => part.kind !== 'overlap')) {
+      const content = join(current);
+      const pages = current.map((part) => part.page).filter((page): page is number => typeof page === 'number');
+      const ids = current.map((part) => part.id).filter((id): id is number => typeof id === 'number');
+      chunks.push({
+        index: chunks.length,
+        content,
+        pages: [...new Set(pages)].sort((a, b) => a - b),
+        element_ids: [...new Set(ids)],
+        heading_path: headingPath,
+        tokens: estimateTokens(content),
+        chars: content.length,
+      });
+    }
+
+    const last = current[current.length - 1];
+    current = [];
+    if (withOverlap && overlap > 0 && last && (last.kind === 'text' || last.kind === 'overlap')) {
+      const tail = takeSuffix(last.text, overlap, measure);
+      if (tail) {
+        current.push({ text: tail, kind: 'overlap', page: last.page, id: last.id });
+      }
+    }
+  };
+
+  for (const element of elements) {
+    if (SKIPPED_CATEGORIES.has(element.category)) {
+      continue;
+    }
+    const text = elementContent(element, format);
+    if (!text) {
+      continue;
+    }
+    const page = typeof element.page === 'number' ? element.page : undefined;
+    const id = typeof element.id === 'number' ? element.id : undefined;
+
+    const level = headingLevel(element.category);
+    if (level !== undefined) {
+      flush(false);
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: elementContent(element, 'text') });
+      headingPath = headings.map((heading) => heading.text);
+      current.push({ text, kind: 'heading', page, id });
+      continue;
+    }
+
+    if (element.category === 'table') {
+      if (!fits(current, text) && hasBody()) {
+        flush(true);
+      }
+      if (!fits(current, text)) {
+        // Overlap is dropped rather than pushing a whole table further over the limit
+        current = current.filter((part) => part.kind !== 'overlap');
+      }
+      current.push({ text, kind: 'table', page, id });
+      continue;
+    }
+
+    if (!fits(current, text) && hasBody()) {
+      flush(true);
+    }
+    // Drop the overlap if that keeps the text in one piece
+    if (!fits(current, text) && fits([], text) && current.every((part) => part.kind === 'overlap')) {
+      current = [];
+    }
+
+    // Text larger than the room left is split across chunks
+    let rest = text;
+    let continued = false;
+    while (rest) {
+      const piece = takePrefix(rest, (candidate) => fits(current, candidate));
+      const last = current[current.length - 1];
+      if (continued && last?.kind === 'overlap') {
+        // The overlap and the rest of the same paragraph read as one text
+        current[current.length - 1] = { ...last, text: `${last.text} ${piece}`, kind: 'text' };
+      } else {
+        current.push({ text: piece, kind: 'text', page, id });
+      }
+      rest = rest.slice(piece.length).trimStart();
+      if (rest) {
+        flush(true);
+        continued = true;
+      }
+    }
+  }
+  flush(false);
+
+  return chunks;
+}
@@ -0,0 +1,213 @@
+/**
+ * Error classes for tool failures
+ *
+ * Each error carries a machine-readable code and, where the caller can do something
+ * about it, a hint. The MCP server returns both alongside the message.
+ */
+
+import { AxiosError } from 'axios';
+
+export type ToolErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'FILE_NOT_FOUND'
+  | 'FILE_TOO_LARGE'
+  | 'UNSUPPORTED_FILE'
+  | 'INVALID_SCHEMA'
+  | 'NOT_FOUND'
+  | 'JOB_NOT_READY'
+  | 'MISSING_API_KEY'
+  | 'UPSTAGE_AUTH_ERROR'
+  | 'UPSTAGE_BAD_REQUEST'
+  | 'UPSTAGE_PAYLOAD_TOO_LARGE'
+  | 'UPSTAGE_RATE_LIMITED'
+  | 'UPSTAGE_SERVER_ERROR'
+  | 'UPSTAGE_NETWORK_ERROR'
+  | 'UPSTAGE_INVALID_RESPONSE'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'INTERNAL_ERROR';
+
+export interface ToolErrorOptions {
+  hint?: string;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors reported to MCP clients with a code and hint
+ */
+export class ToolError extends Error {
+  readonly code: ToolErrorCode;
+  readonly hint?: string;
+  readonly retryable: boolean;
+
+  constructor(message: string, code: ToolErrorCode, options: ToolErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.hint = options.hint;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/**
+ * Tool input that is well-formed but cannot be used, e.g. a missing file or an invalid schema
+ */
+export class ValidationError extends ToolError {
+  constructor(message: string, options: ToolErrorOptions & { code?: ToolErrorCode } = {}) {
+    super(message, options.code || 'VALIDATION_ERROR', options);
+  }
+}
+
+/**
+ * A file whose extension the target Upstage API does not accept
+ */
+export class UnsupportedFileError extends ToolError {
+  constructor(readonly extension: string, readonly supportedExtensions: readonly string[]) {
+    super(
+      `Unsupported file format: ${extension}. Supported formats: ${supportedExtensions.join(', ')}`,
+      'UNSUPPORTED_FILE',
+      { hint: `Convert the document to one of: ${supportedExtensions.join(', ')}` }
+    );
+  }
+}
+
+export interface UpstageApiErrorOptions extends ToolErrorOptions {
+  code?: ToolErrorCode;
+  status?: number;
+  /** Error code from the Upstage response body */
+  upstageCode?: string;
+  requestId?: string;
+}
+
+const STATUS_HINTS: Record<string, string> = {
+  UPSTAGE_AUTH_ERROR: 'Check that UPSTAGE_API_KEY (or the X-Upstage-Api-Key header) is a valid Upstage API key with access to this API',
+  UPSTAGE_PAYLOAD_TOO_LARGE: 'The document is too large for this request; split it, or use submit_parse_job for long documents',
+  UPSTAGE_RATE_LIMITED: 'Upstage rate limit reached; retry later or lower UPSTAGE_MAX_CONCURRENCY / UPSTAGE_REQUESTS_PER_MINUTE',
+  UPSTAGE_SERVER_ERROR: 'Upstage had a temporary problem; retry the call later',
+  UPSTAGE_NETWORK_ERROR: 'Check network access to the Upstage API and UPSTAGE_BASE_URL',
+  UPSTAGE_BAD_REQUEST: 'Check the file and the tool options against the Upstage API documentation',
+};
+
+function codeForStatus(status?: number): ToolErrorCode {
+  if (status === undefined) {
+    return 'UPSTAGE_NETWORK_ERROR';
+  }
+  if (status === 401 || status === 403) {
+    return 'UPSTAGE_AUTH_ERROR';
+  }
+  if (status === 413) {
+    return 'UPSTAGE_PAYLOAD_TOO_LARGE';
+  }
+  if (status === 429) {
+    return 'UPSTAGE_RATE_LIMITED';
+  }
+  if (status >= 500) {
+    return 'UPSTAGE_SERVER_ERROR';
+  }
+  return 'UPSTAGE_BAD_REQUEST';
+}
+
+/**
+ * A failed or unusable response from the Upstage API
+ */
+export class UpstageApiError extends ToolError {
+  readonly status?: number;
+  readonly upstageCode?: string;
+  readonly requestId?: string;
+
+  constructor(message: string, options: UpstageApiErrorOptions = {}) {
+    const code = options.code || codeForStatus(options.status);
+    super(message, code, {
+      hint: options.hint ?? STATUS_HINTS[code],
+      retryable: options.retryable ?? (code === 'UPSTAGE_RATE_LIMITED' || code === 'UPSTAGE_SERVER_ERROR' || code === 'UPSTAGE_NETWORK_ERROR'),
+      cause: options.cause,
+    });
+    this.status = options.status;
+    this.upstageCode = options.upstageCode;
+    this.requestId = options.requestId;
+  }
+
+  /**
+   * Build an error from an axios failure, keeping the status, Upstage error code and request ID
+   * @param error - Axios error with or without a response
+   * @param operation - Operation name used in the message
+   */
+  static fromAxiosError(error: AxiosError<any>, operation: string): UpstageApiError {
+    const data = error.response?.data;
+    const headers = error.response?.headers || {};
+    const message = data?.error?.message || data?.message || error.message;
+    const upstageCode = data?.error?.code || data?.code;
+    const requestId = headers['x-request-id'] || headers['request-id'] || data?.request_id;
+
+    return new UpstageApiError(`${operation} failed: ${message}`, {
+      status: error.response?.status,
+      upstageCode: upstageCode !== undefined ? String(upstageCode) : undefined,
+      requestId: requestId !== undefined ? String(requestId) : undefined,
+      cause: error,
+    });
+  }
+}
+
+/**
+ * A request that did not finish within the configured timeout
+ */
+export class TimeoutError extends ToolError {
+  constructor(message: string, readonly timeoutMs?: number, options: ToolErrorOptions = {}) {
+    super(message, 'TIMEOUT', {
+      hint: 'Retry the call; for long documents use submit_parse_job and poll get_job_status instead',
+      retryable: true,
+      ...options,
+    });
+  }
+}
+
+/**
+ * A request stopped because the client cancelled the tool call
+ */
+export class CancelledError extends ToolError {
+  constructor(message: string) {
+    super(message, 'CANCELLED');
+  }
+}
+
+export interface ToolErrorDetails {
+  code: ToolErrorCode;
+  message: string;
+  hint?: string;
+  retryable: boolean;
+  status?: number;
+  upstage_code?: string;
+  request_id?: string;
+}
+
+/**
+ * Describe any thrown value in the form returned to MCP clients
+ */
+export function describeError(error: unknown): ToolErrorDetails {
+  if (!(error instanceof ToolError)) {
+    return {
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : String(error),
+      retryable: false,
+    };
+  }
+
+  const details: ToolErrorDetails = {
+    code: error.code,
+    message: error.message,
+    hint: error.hint,
+    retryable: error.retryable,
+  };
+
+  if (error instanceof UpstageApiError) {
+    details.status = error.status;
+    details.upstage_code = error.upstageCode;
+    details.request_id = error.requestId;
+  }
+
+  // Drop unset fields so the JSON stays readable
+  return Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== undefined)
+  ) as unknown as ToolErrorDetails;
+}
@@ -0,0 +1,237 @@
+/**
+ * Check extracted data against the extraction schema it was requested with
+ *
+ * The model output is not guaranteed to follow the schema. Every declared field is
+ * expected; fields that are absent, null, of the wrong type or not declared at all are
+ * reported so that records needing review can be flagged.
+ */
+
+export type ValidationIssueKind = 'missing' | 'null' | 'type_mismatch' | 'unexpected' | 'coerced';
+
+export interface ValidationIssue {
+  /** Field path such as total_amount or items[0].quantity */
+  path: string;
+  kind: ValidationIssueKind;
+  /** Expected type(s) from the schema */
+  expected?: string;
+  /** Value found in the output, for type mismatches and coercions */
+  value?: any;
+  /** Value after coercion */
+  coerced_to?: any;
+}
+
+export interface ExtractionValidationReport {
+  /** True when every field is present, non-null and of the declared type (after coercion) */
+  valid: boolean;
+  counts: Record<ValidationIssueKind, number>;
+  issues: ValidationIssue[];
+}
+
+interface ValidationOptions {
+  /** Convert values such as "1,234.50" or "yes" to the declared type where unambiguous */
+  coerce?: boolean;
+}
+
+const NUMBER_PATTERN = /^[-+]?\d+(\.\d+)?$/;
+
+function schemaTypes(property: any): string[] {
+  if (!property || property.type === undefined) {
+    return [];
+  }
+  return Array.isArray(property.type) ? property.type : [property.type];
+}
+
+function typeOf(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Parse a formatted number such as "1,234.50", "$ 99", "1.234,50" or "(12.00)"
+ * @returns The number, or undefined if the text is not a single number
+ */
+export function parseFormattedNumber(text: string): number | undefined {
+  let value = text.trim();
+  let negative = false;
+
+  // Accounting notation for negative amounts
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+
+  // Currency symbols and codes, percent signs and spaces used as digit grouping
+  value = value.replace(/^[A-Z]{3}\s*|\s*[A-Z]{3}$/g, '').replace(/[\s$€£¥₩%]/g, '');
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Whichever separator comes last is the decimal separator
+    value = lastComma > lastDot ? value.replace(/\./g, '').replace(',', '.') : value.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    // "1,234" and "1,234,567" group thousands; "12,5" is a decimal comma
+    value = /^[-+]?\d{1,3}(,\d{3})+$/.test(value) ? value.replace(/,/g, '') : value.replace(',', '.');
+  }
+
+  if (!NUMBER_PATTERN.test(value)) {
+    return undefined;
+  }
+  const number = Number(value);
+  return negative ? -number : number;
+}
+
+/**
+ * Convert a value to one of the declared types
+ * @returns The converted value, or undefined if no conversion applies
+ */
+function coerceValue(value: any, types: string[]): any {
+  for (const type of types) {
+    if ((type === 'number' || type === 'integer') && typeof value === 'string') {
+      const number = parseFormattedNumber(value);
+      if (number !== undefined && (type === 'number' || Number.isInteger(number))) {
+        return number;
+      }
+    }
+    if (type === 'boolean' && typeof value === 'string') {
+      const normalized = value.trim().toLowerCase();
+      if (['true', 'yes', 'y'].includes(normalized)) {
+        return true;
+      }
+      if (['false', 'no', 'n'].includes(normalized)) {
+        return false;
+      }
+    }
+    if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+      return String(value);
+    }
+  }
+
+  // An empty string for a non-string field means the value was not found
+  if (value === '' && !types.includes('string')) {
+    return null;
+  }
+  return undefined;
+}
+
+/**
+ * Validate extracted data against the json_schema part of an extraction schema
+ * @param data - Parsed model output
+ * @param jsonSchema - The json_schema part ({ name, schema }) used for the request
+ * @param options - Whether to coerce values to the declared types
+ * @returns The data (with coerced values, if enabled) and the validation report
+ */
+export function validateExtractedData(
+  data: any,
+  jsonSchema: Record<string, any>,
+  options: ValidationOptions = {}
+): { data: any; report: ExtractionValidationReport } {
+  const issues: ValidationIssue[] = [];
+
+  const visit = (value: any, property: any, path: string): any => {
+    const types = schemaTypes(property);
+    if (types.length === 0) {
+      return value;
+    }
+
+    if (value === null) {
+      if (!types.includes('null')) {
+        issues.push({ path, kind: 'null', expected: types.join('|') });
+      }
+      return value;
+    }
+
+    if (!types.some((type) => matchesType(value, type))) {
+      const coerced = options.coerce ? coerceValue(value, types) : undefined;
+      if (coerced === undefined) {
+        issues.push({ path, kind: 'type_mismatch', expected: types.join('|'), value });
+        return value;
+      }
+      issues.push({ path, kind: 'coerced', expected: types.join('|'), value, coerced_to: coerced });
+      if (coerced === null && !types.includes('null')) {
+        issues.push({ path, kind: 'null', expected: types.join('|') });
+      }
+      return coerced;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => visit(item, property.items, `${path}[${index}]`));
+    }
+    if (typeOf(value) === 'object' && property.properties) {
+      return visitObject(value, property, path);
+    }
+    return value;
+  };
+
+  const visitObject = (value: Record<string, any>, property: any, path: string): Record<string, any> => {
+    const result: Record<string, any> = {};
+    const declared: Record<string, any> = property.properties || {};
+    const prefix = path ? `${path}.` : '';
+
+    for (const [key, fieldValue] of Object.entries(value)) {
+      if (Object.prototype.hasOwnProperty.call(declared, key)) {
+        result[key] = visit(fieldValue, declared[key], `${prefix}${key}`);
+        continue;
+      }
+      if (property.additionalProperties !== true) {
+        issues.push({ path: `${prefix}${key}`, kind: 'unexpected', value: fieldValue });
+      }
+      result[key] = fieldValue;
+    }
+
+    for (const [key, child] of Object.entries(declared)) {
+      if (!Object.prototype.hasOwnProperty.call(value, key)) {
+        issues.push({ path: `${prefix}${key}`, kind: 'missing', expected: schemaTypes(child).join('|') || undefined });
+      }
+    }
+    return result;
+  };
+
+  let validated = data;
+  if (typeOf(data) === 'object') {
+    validated = visitObject(data, jsonSchema.schema || {}, '');
+  } else {
+    issues.push({ path: '', kind: 'type_mismatch', expected: 'object', value: data });
+  }
+
+  const counts: Record<ValidationIssueKind, number> = {
+    missing: 0,
+    null: 0,
+    type_mismatch: 0,
+    unexpected: 0,
+    coerced: 0,
+  };
+  for (const issue of issues) {
+    counts[issue.kind]++;
+  }
+
+  return {
+    data: validated,
+    report: {
+      valid: issues.every((issue) => issue.kind === 'coerced'),
+      counts,
+      issues,
+    },
+  };
+}
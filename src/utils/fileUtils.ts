@@ -1,6 +1,16 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
+import { EventEmitter } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+
+/**
+ * Emits 'saved' with the file path whenever a JSON file is written under the outputs directory
+ */
+export const outputEvents = new EventEmitter();
+// One listener per connected MCP server (one per HTTP session)
+outputEvents.setMaxListeners(0);
 
 export async function ensureDirectoryExists(dirPath: string): Promise<void> {
   await fs.mkdir(dirPath, { recursive: true });
@@ -14,6 +24,10 @@ export async function saveJsonToFile(
   const { indent = 2 } = options;
   const jsonContent = JSON.stringify(data, null, indent);
   await fs.writeFile(filePath, jsonContent, 'utf-8');
+  
+  if (isOutputPath(filePath)) {
+    outputEvents.emit('saved', filePath);
+  }
 }
 
 export async function readJsonFile(filePath: string): Promise<any> {
@@ -47,8 +61,50 @@ export function getMimeType(filePath: string): string {
   return mimeTypes[ext] || 'application/octet-stream';
 }
 
+/** Directory under the outputs root that holds one subdirectory per authenticated client */
+const CLIENT_OUTPUTS_DIR = 'clients';
+
+/**
+ * Output subdirectory of the authenticated client the current tool call or resource request runs for
+ */
+const outputScope = new AsyncLocalStorage<string>();
+
+/**
+ * Run a function with outputs kept apart per authenticated client, so clients sharing an HTTP
+ * server neither see nor overwrite each other's results
+ * @param clientId - Authenticated client; without one, outputs go to the shared outputs directory
+ * @param fn - Function whose output paths are scoped to the client
+ */
+export function runWithOutputScope<T>(clientId: string | undefined, fn: () => T): T {
+  if (!clientId) {
+    return outputScope.exit(fn);
+  }
+  return outputScope.run(createHash('sha256').update(clientId).digest('hex').slice(0, 16), fn);
+}
+
 export function getOutputDirectory(subDir: string): string {
-  return path.join(os.homedir(), '.mcp-upstage', 'outputs', subDir);
+  const outputRoot = path.join(os.homedir(), '.mcp-upstage', 'outputs');
+  const scope = outputScope.getStore();
+  return scope ? path.join(outputRoot, CLIENT_OUTPUTS_DIR, scope, subDir) : path.join(outputRoot, subDir);
+}
+
+export function getJobsDirectory(): string {
+  return path.join(os.homedir(), '.mcp-upstage', 'jobs');
+}
+
+/**
+ * Whether a path lies inside the outputs directory the current caller may see; callers without
+ * a client scope do not see the outputs of authenticated clients
+ * @param filePath - Path to check
+ */
+export function isOutputPath(filePath: string): boolean {
+  const outputRoot = getOutputDirectory('');
+  const resolved = path.resolve(filePath);
+  if (!resolved.startsWith(outputRoot + path.sep)) {
+    return false;
+  }
+  const clientOutputs = path.join(outputRoot, CLIENT_OUTPUTS_DIR);
+  return !!outputScope.getStore() || (resolved !== clientOutputs && !resolved.startsWith(clientOutputs + path.sep));
 }
 
 export function generateTimestampedFilename(originalPath: string, suffix: string = 'upstage'): string {
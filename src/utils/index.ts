@@ -2,4 +2,19 @@ export * from './apiClient';
 export * from './constants';
 export * from './fileUtils';
 export * from './validators';
-export * from './schemaHelpers';
\ No newline at end of file
+export * from './schemaHelpers';
+export * from './progress';
+export * from './outputResources';
+export * from './resultCache';
+export * from './config';
+export * from './recorder';
+export * from './rateLimiter';
+export * from './errors';
+export * from './schemaStore';
+export * from './extractionValidation';
+export * from './schemaDsl';
+export * from './schemaMerge';
+export * from './schemaEditor';
+export * from './tableConverter';
+export * from './parseResults';
+export * from './documentChunker';
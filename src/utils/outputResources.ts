@@ -0,0 +1,109 @@
+/**
+ * Expose saved tool outputs as MCP resources under upstage://outputs/
+ *
+ * URIs are relative to the outputs directory of the caller, so an authenticated client only
+ * lists and reads its own results (see runWithOutputScope).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { getOutputDirectory, isOutputPath } from './fileUtils';
+
+export const OUTPUT_URI_PREFIX = 'upstage://outputs/';
+
+/**
+ * Build the resource URI for a file under the outputs directory
+ * @param filePath - Absolute path of a saved output file
+ * @returns URI such as upstage://outputs/document_parsing/report_2025-01-01T00-00-00_upstage.json
+ */
+export function outputPathToUri(filePath: string): string {
+  const relativePath = path.relative(getOutputDirectory(''), filePath);
+  return OUTPUT_URI_PREFIX + relativePath.split(path.sep).map(encodeURIComponent).join('/');
+}
+
+/**
+ * Resolve a resource URI back to a file path inside the outputs directory
+ * @param uri - upstage://outputs/... URI
+ * @returns Absolute file path
+ * @throws Error if the URI is malformed or points outside the outputs directory
+ */
+export function uriToOutputPath(uri: string): string {
+  if (!uri.startsWith(OUTPUT_URI_PREFIX)) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  const segments = uri.slice(OUTPUT_URI_PREFIX.length).split('/').map(decodeURIComponent);
+  const filePath = path.resolve(getOutputDirectory(''), ...segments);
+
+  if (!isOutputPath(filePath)) {
+    throw new Error(`Resource URI points outside the outputs directory: ${uri}`);
+  }
+
+  return filePath;
+}
+
+async function collectJsonFiles(dirPath: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dirPath, { withFileTypes: true });
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name);
+    if (!isOutputPath(entryPath)) {
+      continue;
+    }
+    if (entry.isDirectory()) {
+      files.push(...(await collectJsonFiles(entryPath)));
+    } else if (entry.isFile() && entry.name.endsWith('.json')) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * List every saved output file of the caller as an MCP resource, newest first
+ */
+export async function listOutputResources(): Promise<Resource[]> {
+  const outputRoot = getOutputDirectory('');
+  const files = await collectJsonFiles(outputRoot);
+
+  const withStats = await Promise.all(
+    files.map(async (filePath) => ({ filePath, stats: await fs.stat(filePath) }))
+  );
+  withStats.sort((a, b) => b.stats.mtimeMs - a.stats.mtimeMs);
+
+  return withStats.map(({ filePath, stats }) => ({
+    uri: outputPathToUri(filePath),
+    name: path.relative(outputRoot, filePath).split(path.sep).join('/'),
+    description: `Saved ${path.dirname(path.relative(outputRoot, filePath)).split(path.sep).join('/')} result (${stats.mtime.toISOString()})`,
+    mimeType: 'application/json',
+  }));
+}
+
+/**
+ * Read the contents of a saved output resource
+ * @param uri - upstage://outputs/... URI
+ * @returns The file contents as JSON text
+ */
+export async function readOutputResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+  const filePath = uriToOutputPath(uri);
+
+  try {
+    const text = await fs.readFile(filePath, 'utf-8');
+    return { uri, mimeType: 'application/json', text };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Read Document Parse results saved by parse_document or get_job_result
+ */
+
+import path from 'path';
+import { readJsonFile } from './fileUtils';
+import { OUTPUT_URI_PREFIX, uriToOutputPath } from './outputResources';
+import { ValidationError } from './errors';
+
+export interface SavedParseResult {
+  /** Path of the saved result */
+  path: string;
+  elements: Record<string, any>[];
+  content: Record<string, any>;
+}
+
+/**
+ * Load a saved parse result
+ * @param source - File path or upstage://outputs/ resource URI of the saved result
+ * @returns The layout elements and whole-document content of the result
+ * @throws ValidationError if the file is missing or is not a parse result
+ */
+export async function readSavedParseResult(source: string): Promise<SavedParseResult> {
+  let filePath = source;
+  if (source.startsWith(OUTPUT_URI_PREFIX)) {
+    try {
+      filePath = uriToOutputPath(source);
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  let result: any;
+  try {
+    result = await readJsonFile(filePath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new ValidationError(`Parse result not found: ${source}`, {
+        code: 'FILE_NOT_FOUND',
+        hint: 'Pass the saved_to path returned by parse_document or get_job_result',
+      });
+    }
+    throw new ValidationError(`Cannot read parse result ${source}: ${error.message}`);
+  }
+
+  if (!result || !Array.isArray(result.elements)) {
+    throw new ValidationError(`${source} is not a Document Parse result`, {
+      hint: 'Pass the saved_to path returned by parse_document or get_job_result',
+    });
+  }
+
+  return { path: filePath, elements: result.elements, content: result.content || {} };
+}
+
+/**
+ * Name of the parsed document, from a saved result named <document>_<timestamp>_upstage.json
+ * @param filePath - Path of the saved parse result
+ */
+export function parsedDocumentName(filePath: string): string {
+  return path.basename(filePath, '.json').replace(/_\d{4}-\d{2}-\d{2}T[\d-]+_upstage$/, '');
+}
+
+export type ElementFormat = 'markdown' | 'html' | 'text';
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .trim();
+}
+
+/**
+ * Content of a layout element in the requested format
+ * @param element - Element of a parse result
+ * @param format - Output format; falls back to the other formats the parse returned
+ * @returns The content, or an empty string if the element has none
+ */
+export function elementContent(element: Record<string, any>, format: ElementFormat): string {
+  const content = element.content || {};
+  if (typeof content[format] === 'string' && content[format].trim()) {
+    return content[format].trim();
+  }
+  if (format === 'html') {
+    return '';
+  }
+  // Plain text stands in for markdown, and text can be recovered from the HTML
+  if (format === 'markdown' && typeof content.text === 'string' && content.text.trim()) {
+    return content.text.trim();
+  }
+  if (typeof content.html === 'string') {
+    return stripHtml(content.html);
+  }
+  return typeof content.markdown === 'string' ? content.markdown.trim() : '';
+}
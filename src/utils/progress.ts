@@ -0,0 +1,78 @@
+/**
+ * Progress reporting types shared by the tools and the MCP server
+ */
+
+import { QueueWaitCallback, QueueWaitUpdate } from './rateLimiter';
+
+export interface ProgressUpdate {
+  progress: number;
+  total: number;
+  message?: string;
+}
+
+export type ProgressCallback = (update: ProgressUpdate) => Promise<void>;
+
+/**
+ * Map a step's 0-total progress onto a slice of the overall progress
+ * @param onProgress - Progress callback of the tool call, if the client asked for progress
+ * @param from - Overall progress when the step starts
+ * @param to - Overall progress when the step ends
+ * @returns Progress callback for the step, or undefined without a progress callback
+ */
+export function scaleProgress(
+  onProgress: ProgressCallback | undefined,
+  from: number,
+  to: number,
+  total: number = 100
+): ProgressCallback | undefined {
+  if (!onProgress) {
+    return undefined;
+  }
+
+  return async (update) => {
+    await onProgress({
+      progress: from + ((to - from) * update.progress) / update.total,
+      total,
+      message: update.message,
+    });
+  };
+}
+
+function describeQueueWait({ waitedMs, position, reason }: QueueWaitUpdate): string {
+  const waited = `${(waitedMs / 1000).toFixed(1)}s`;
+  if (position === 0) {
+    return `Rate limit slot acquired after waiting ${waited}`;
+  }
+
+  const reasons = {
+    concurrency: 'too many requests in flight',
+    requests_per_minute: 'requests-per-minute limit reached',
+    rate_limited: 'API asked to retry later',
+  };
+  return `Waiting for rate limit slot (position ${position}, ${reasons[reason]}, waited ${waited})`;
+}
+
+/**
+ * Turn rate limiter queue updates into progress notifications
+ * @param onProgress - Progress callback of the tool call, if the client asked for progress
+ * @param from - Progress already reported before the API request
+ * @param to - Progress the tool reports after the API request
+ * @returns Queue wait callback for the API request, or undefined without a progress callback
+ */
+export function reportQueueWait(
+  onProgress: ProgressCallback | undefined,
+  from: number,
+  to: number,
+  total: number = 100
+): QueueWaitCallback | undefined {
+  if (!onProgress) {
+    return undefined;
+  }
+
+  // Move halfway towards `to` on every update, since progress must keep increasing
+  let progress = from;
+  return async (update) => {
+    progress += (to - progress) / 2;
+    await onProgress({ progress, total, message: describeQueueWait(update) });
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Client-side rate limiting for Upstage API requests
+ *
+ * Requests made with the same API key to the same endpoint share one limiter, which
+ * caps concurrent and per-minute requests and serves waiting callers first come,
+ * first served. Retry-After and rate-limit response headers pause the limiter so
+ * queued callers wait together instead of each hitting the API again.
+ */
+
+import { createHash } from 'crypto';
+import { RATE_LIMIT_CONFIG } from './constants';
+import { RateLimitSettings, getEndpointName, getRateLimitSettings } from './config';
+
+const WINDOW_MS = 60 * 1000;
+
+/** Why a queued request is still waiting */
+export type QueueWaitReason = 'concurrency' | 'requests_per_minute' | 'rate_limited';
+
+export interface QueueWaitUpdate {
+  /** Milliseconds spent in the queue so far */
+  waitedMs: number;
+  /** 1-based position in the queue, or 0 once the request may start */
+  position: number;
+  reason: QueueWaitReason;
+}
+
+export type QueueWaitCallback = (update: QueueWaitUpdate) => Promise<void> | void;
+
+interface Waiter {
+  start: (release: () => void) => void;
+}
+
+export class RateLimiter {
+  private active = 0;
+  private readonly startTimes: number[] = [];
+  private readonly queue: Waiter[] = [];
+  private pausedUntil = 0;
+  private blockedBy: QueueWaitReason = 'concurrency';
+  private timer?: NodeJS.Timeout;
+
+  constructor(readonly settings: RateLimitSettings) {}
+
+  /** Requests waiting for a slot */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /** Requests holding a slot */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /**
+   * Wait for a request slot
+   * @param signal - Optional abort signal; aborting leaves the queue
+   * @param onWait - Called when the request has to queue, periodically while it waits, and when it starts
+   * @returns Function that frees the slot once the request has finished
+   */
+  acquire(signal?: AbortSignal, onWait?: QueueWaitCallback): Promise<() => void> {
+    signal?.throwIfAborted();
+
+    return new Promise((resolve, reject) => {
+      const queuedAt = Date.now();
+      let interval: NodeJS.Timeout | undefined;
+      let reported = false;
+
+      const report = (position: number) => {
+        if (!onWait) {
+          return;
+        }
+        reported = true;
+        Promise.resolve(onWait({ waitedMs: Date.now() - queuedAt, position, reason: this.blockedBy })).catch(() => {
+          // Progress is best effort
+        });
+      };
+
+      const cleanup = () => {
+        clearInterval(interval);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const waiter: Waiter = {
+        start: (release) => {
+          cleanup();
+          if (reported) {
+            report(0);
+          }
+          resolve(release);
+        },
+      };
+
+      const onAbort = () => {
+        cleanup();
+        this.queue.splice(this.queue.indexOf(waiter), 1);
+        reject(signal?.reason instanceof Error ? signal.reason : new Error('Request cancelled'));
+        this.drain();
+      };
+
+      this.queue.push(waiter);
+      this.drain();
+
+      // Still queued: tell the caller and keep them posted
+      if (this.queue.includes(waiter)) {
+        signal?.addEventListener('abort', onAbort, { once: true });
+        report(this.queue.indexOf(waiter) + 1);
+        interval = setInterval(() => report(this.queue.indexOf(waiter) + 1), RATE_LIMIT_CONFIG.QUEUE_PROGRESS_INTERVAL);
+        interval.unref();
+      }
+    });
+  }
+
+  /**
+   * Hold back every queued request, e.g. after a 429 with Retry-After
+   * @param delayMs - Milliseconds before the next request may start
+   */
+  pause(delayMs: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+    this.drain();
+  }
+
+  /**
+   * Pause the limiter if the response headers ask the client to slow down
+   * @param headers - Response headers from the API
+   * @returns The delay applied in milliseconds, if any
+   */
+  applyResponseHeaders(headers: Record<string, any> | undefined): number | undefined {
+    const delayMs = getRateLimitDelay(headers);
+    if (delayMs !== undefined && delayMs > 0) {
+      this.pause(delayMs);
+    }
+    return delayMs;
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.active--;
+      this.drain();
+    };
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => this.drain(), delayMs);
+    this.timer.unref();
+  }
+
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      while (this.startTimes.length > 0 && this.startTimes[0] <= now - WINDOW_MS) {
+        this.startTimes.shift();
+      }
+
+      if (now < this.pausedUntil) {
+        this.blockedBy = 'rate_limited';
+        this.schedule(this.pausedUntil - now);
+        return;
+      }
+
+      // A finished request frees the slot and drains again
+      if (this.active >= this.settings.maxConcurrency) {
+        this.blockedBy = 'concurrency';
+        return;
+      }
+
+      if (this.startTimes.length >= this.settings.requestsPerMinute) {
+        this.blockedBy = 'requests_per_minute';
+        this.schedule(this.startTimes[0] + WINDOW_MS - now);
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      this.active++;
+      this.startTimes.push(now);
+      waiter.start(this.createRelease());
+    }
+  }
+}
+
+/**
+ * Parse a rate-limit reset value: seconds, a Unix timestamp, an HTTP date or a duration such as "1m30s"
+ * @returns Milliseconds from now, or undefined if the value is not understood
+ */
+function parseResetValue(value: string): number | undefined {
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const seconds = parseFloat(trimmed);
+    // Values this large are Unix timestamps rather than delays
+    return seconds > 1e9 ? seconds * 1000 - Date.now() : seconds * 1000;
+  }
+
+  const durationParts = [...trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)];
+  if (durationParts.length > 0 && durationParts.map((part) => part[0]).join('') === trimmed) {
+    const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+    return durationParts.reduce((total, [, amount, unit]) => total + parseFloat(amount) * unitMs[unit], 0);
+  }
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : date - Date.now();
+}
+
+/**
+ * Work out how long to hold back requests from Retry-After or exhausted rate-limit headers
+ * @param headers - Response headers (lower-case names, as axios provides them)
+ * @returns Delay in milliseconds, or undefined if the headers do not ask for one
+ */
+export function getRateLimitDelay(headers: Record<string, any> | undefined): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const header = (name: string): string | undefined => {
+    const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+    return value === undefined || value === null ? undefined : String(value);
+  };
+
+  const retryAfter = header('retry-after');
+  if (retryAfter) {
+    const delayMs = parseResetValue(retryAfter);
+    if (delayMs !== undefined) {
+      return Math.max(0, delayMs);
+    }
+  }
+
+  const remaining = header('x-ratelimit-remaining-requests') ?? header('x-ratelimit-remaining');
+  const reset = header('x-ratelimit-reset-requests') ?? header('x-ratelimit-reset');
+  if (remaining !== undefined && parseInt(remaining, 10) <= 0 && reset) {
+    const delayMs = parseResetValue(reset);
+    if (delayMs !== undefined) {
+      return Math.max(0, delayMs);
+    }
+  }
+
+  return undefined;
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * Get the limiter shared by every request with this API key to this endpoint
+ * @param apiKey - Upstage API key
+ * @param url - Request URL
+ */
+export function getRateLimiter(apiKey: string, url: string): RateLimiter {
+  const endpointName = getEndpointName(url);
+  // Hash the key so it is not kept around as a map key
+  const keyHash = createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+  const limiterKey = `${keyHash}:${endpointName || url.split('?')[0]}`;
+
+  let limiter = limiters.get(limiterKey);
+  if (!limiter) {
+    limiter = new RateLimiter(getRateLimitSettings(endpointName));
+    limiters.set(limiterKey, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Drop all limiters so the next requests pick up changed rate limit settings
+ */
+export function resetRateLimiters(): void {
+  limiters.clear();
+}
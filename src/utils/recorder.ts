@@ -0,0 +1,157 @@
+/**
+ * Record/replay of Upstage API traffic
+ *
+ * UPSTAGE_RECORD_MODE=record saves every request/response pair as a fixture;
+ * UPSTAGE_RECORD_MODE=replay serves responses from those fixtures without network access.
+ * Fixtures are keyed by request fingerprint and never contain the API key or base64 payloads.
+ */
+
+import { AxiosError, AxiosHeaders, AxiosResponse } from 'axios';
+import path from 'path';
+import os from 'os';
+import { computeCacheKey, hashRequestFiles, normalizeValue } from './resultCache';
+import { ensureDirectoryExists, readJsonFile, saveJsonToFile } from './fileUtils';
+
+export type RecordMode = 'off' | 'record' | 'replay';
+
+interface RecordableRequest {
+  method?: 'GET' | 'POST';
+  files?: Record<string, any>;
+  data?: Record<string, any>;
+  json?: Record<string, any>;
+}
+
+interface Fixture {
+  fingerprint: string;
+  recorded_at: string;
+  request: {
+    method: string;
+    path: string;
+    files: Record<string, string>;
+    body: any;
+  };
+  response: {
+    status: number;
+    data: any;
+  };
+}
+
+/**
+ * Raised in replay mode when no fixture matches a request
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(readonly fingerprint: string, requestPath: string) {
+    super(`No recorded fixture for ${requestPath} (fingerprint ${fingerprint})`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+export function getRecordMode(): RecordMode {
+  const mode = process.env.UPSTAGE_RECORD_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export function getFixturesDirectory(): string {
+  return process.env.UPSTAGE_FIXTURES_DIR || path.join(os.homedir(), '.mcp-upstage', 'fixtures');
+}
+
+function getRequestPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Fingerprint a request independently of the API key and base URL
+ */
+async function fingerprintRequest(url: string, request: RecordableRequest): Promise<string> {
+  return computeCacheKey(`${request.method || 'POST'} ${getRequestPath(url)}`, request);
+}
+
+/**
+ * Replace base64 image payloads in a response with a placeholder
+ */
+function redactResponse(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(redactResponse);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        key === 'base64_encoding' && typeof entry === 'string' ? '[redacted]' : redactResponse(entry),
+      ])
+    );
+  }
+  return value;
+}
+
+function getFixturePath(fingerprint: string): string {
+  return path.join(getFixturesDirectory(), `${fingerprint}.json`);
+}
+
+/**
+ * Save a request/response pair as a fixture
+ */
+export async function recordExchange(
+  url: string,
+  request: RecordableRequest,
+  status: number,
+  data: any
+): Promise<void> {
+  const fingerprint = await fingerprintRequest(url, request);
+
+  const fixture: Fixture = {
+    fingerprint,
+    recorded_at: new Date().toISOString(),
+    request: {
+      method: request.method || 'POST',
+      path: getRequestPath(url),
+      files: await hashRequestFiles(request.files),
+      // Data URLs are replaced by their content hash, so no document bytes are stored
+      body: normalizeValue(request.json || request.data || {}),
+    },
+    response: {
+      status,
+      data: redactResponse(data),
+    },
+  };
+
+  await ensureDirectoryExists(getFixturesDirectory());
+  await saveJsonToFile(fixture, getFixturePath(fingerprint), { indent: 2 });
+}
+
+/**
+ * Serve a request from its recorded fixture
+ * @returns An axios-like response for 2xx fixtures
+ * @throws AxiosError for recorded error responses, FixtureNotFoundError if nothing was recorded
+ */
+export async function replayExchange(url: string, request: RecordableRequest): Promise<Pick<AxiosResponse, 'status' | 'data'>> {
+  const fingerprint = await fingerprintRequest(url, request);
+
+  let fixture: Fixture;
+  try {
+    fixture = await readJsonFile(getFixturePath(fingerprint));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new FixtureNotFoundError(fingerprint, getRequestPath(url));
+    }
+    throw error;
+  }
+
+  const { status, data } = fixture.response;
+  if (status >= 400) {
+    const headers = new AxiosHeaders();
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      { headers },
+      undefined,
+      { status, statusText: '', data, headers: {}, config: { headers } }
+    );
+  }
+
+  return { status, data };
+}
@@ -0,0 +1,323 @@
+/**
+ * Content-addressed cache for Upstage API results
+ *
+ * Entries are keyed on the SHA-256 of the uploaded file bytes, the endpoint, the
+ * normalized request options and the API key, and stored under ~/.mcp-upstage/cache.
+ * Keying on the API key keeps one client's results from being served to another.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { CACHE_CONFIG } from './constants';
+import { ensureDirectoryExists, saveJsonToFile, readJsonFile } from './fileUtils';
+
+interface CacheableRequest {
+  files?: Record<string, any>;
+  data?: Record<string, any>;
+  json?: Record<string, any>;
+}
+
+interface CacheEntry {
+  key: string;
+  /** Hash of the API key the result was fetched with; only that key can inspect or clear it */
+  owner: string;
+  endpoint: string;
+  operation: string;
+  created_at: string;
+  result: any;
+  /** Output files saved from this result, by output kind, so a cache hit does not save another copy */
+  outputs?: Record<string, string>;
+}
+
+export interface CacheEntrySummary {
+  key: string;
+  endpoint: string;
+  operation: string;
+  created_at: string;
+  size_bytes: number;
+}
+
+export interface CacheStats {
+  directory: string;
+  entries: number;
+  total_size_bytes: number;
+  ttl_hours: number;
+  max_size_bytes: number;
+  items: CacheEntrySummary[];
+}
+
+export function getCacheDirectory(): string {
+  return path.join(os.homedir(), '.mcp-upstage', 'cache');
+}
+
+function getCacheTtl(): number {
+  const hours = Number(process.env.UPSTAGE_CACHE_TTL_HOURS);
+  return hours > 0 ? hours * 60 * 60 * 1000 : CACHE_CONFIG.TTL;
+}
+
+function getCacheMaxSize(): number {
+  const megabytes = Number(process.env.UPSTAGE_CACHE_MAX_MB);
+  return megabytes > 0 ? megabytes * 1024 * 1024 : CACHE_CONFIG.MAX_SIZE;
+}
+
+export function isCacheEnabled(): boolean {
+  return process.env.UPSTAGE_CACHE_DISABLED !== 'true';
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Sort object keys recursively and replace inline base64 data URLs with their content hash
+ */
+export function normalizeValue(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(normalizeValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, normalizeValue(value[key])])
+    );
+  }
+  if (typeof value === 'string') {
+    const dataUrl = value.match(/^data:[^;]+;base64,(.*)$/s);
+    if (dataUrl) {
+      return `sha256:${sha256(Buffer.from(dataUrl[1], 'base64'))}`;
+    }
+  }
+  return value;
+}
+
+/**
+ * Hash the uploaded files of a multipart request
+ * @returns SHA-256 hex digest per form field
+ */
+export async function hashRequestFiles(files: Record<string, any> = {}): Promise<Record<string, string>> {
+  const fileHashes: Record<string, string> = {};
+  for (const [field, file] of Object.entries(files)) {
+    if (typeof file === 'string') {
+      fileHashes[field] = sha256(await fs.readFile(file));
+    } else if (Buffer.isBuffer(file)) {
+      fileHashes[field] = sha256(file);
+    }
+  }
+  return fileHashes;
+}
+
+/**
+ * Compute the cache key for an API request
+ * @param url - Endpoint URL
+ * @param request - Files, form fields or JSON body of the request
+ * @param apiKey - API key the request is made with; only its hash is part of the key
+ * @returns Hex SHA-256 cache key
+ */
+export async function computeCacheKey(url: string, request: CacheableRequest, apiKey?: string): Promise<string> {
+  const fileHashes = await hashRequestFiles(request.files);
+
+  return sha256(
+    JSON.stringify(
+      normalizeValue({
+        endpoint: url,
+        ...(apiKey !== undefined && { api_key: sha256(apiKey) }),
+        files: fileHashes,
+        data: request.data || {},
+        json: request.json || {},
+      })
+    )
+  );
+}
+
+function getEntryPath(key: string): string {
+  return path.join(getCacheDirectory(), `${key}.json`);
+}
+
+/**
+ * Look up a cached result
+ * @returns The stored API response, or undefined on a miss or expired entry
+ */
+export async function getCachedResult(key: string): Promise<any | undefined> {
+  const entryPath = getEntryPath(key);
+
+  let entry: CacheEntry;
+  try {
+    entry = await readJsonFile(entryPath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error instanceof SyntaxError) {
+      return undefined;
+    }
+    throw error;
+  }
+
+  if (Date.now() - new Date(entry.created_at).getTime() > getCacheTtl()) {
+    await fs.rm(entryPath, { force: true });
+    return undefined;
+  }
+
+  // Touch the entry so size-based eviction drops least recently used entries first
+  const now = new Date();
+  await fs.utimes(entryPath, now, now);
+
+  return entry.result;
+}
+
+/**
+ * Store an API result and evict old entries beyond the size limit
+ * @param apiKey - API key the result was fetched with; only its hash is stored
+ */
+export async function setCachedResult(
+  key: string,
+  endpoint: string,
+  operation: string,
+  result: any,
+  apiKey: string
+): Promise<void> {
+  await ensureDirectoryExists(getCacheDirectory());
+
+  const entry: CacheEntry = {
+    key,
+    owner: sha256(apiKey),
+    endpoint,
+    operation,
+    created_at: new Date().toISOString(),
+    result,
+  };
+  await saveJsonToFile(entry, getEntryPath(key), { indent: 0 });
+
+  await evictCacheEntries(getCacheMaxSize());
+}
+
+/**
+ * Path of an output file saved earlier from a cached result
+ * @param key - Cache key of the result
+ * @param kind - Kind of output, e.g. the tool and the options that shape the saved file
+ */
+export async function getCachedOutputPath(key: string, kind: string): Promise<string | undefined> {
+  try {
+    const entry: CacheEntry = await readJsonFile(getEntryPath(key));
+    return entry.outputs?.[kind];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Remember the output file saved from a cached result
+ * @param key - Cache key of the result
+ * @param kind - Kind of output, as passed to getCachedOutputPath
+ * @param outputPath - Path of the saved output
+ */
+export async function setCachedOutputPath(key: string, kind: string, outputPath: string): Promise<void> {
+  const entryPath = getEntryPath(key);
+  let entry: CacheEntry;
+  try {
+    entry = await readJsonFile(entryPath);
+  } catch {
+    // Evicted or never stored; there is nothing to attach the path to
+    return;
+  }
+  entry.outputs = { ...entry.outputs, [kind]: outputPath };
+  await saveJsonToFile(entry, entryPath, { indent: 0 });
+}
+
+async function listCacheFiles(): Promise<{ filePath: string; size: number; mtimeMs: number }[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(getCacheDirectory());
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const files = [];
+  for (const name of names.filter((name) => name.endsWith('.json'))) {
+    const filePath = path.join(getCacheDirectory(), name);
+    const stats = await fs.stat(filePath);
+    files.push({ filePath, size: stats.size, mtimeMs: stats.mtimeMs });
+  }
+  return files;
+}
+
+async function evictCacheEntries(maxSize: number): Promise<void> {
+  const files = await listCacheFiles();
+  let totalSize = files.reduce((sum, file) => sum + file.size, 0);
+
+  // Oldest first
+  files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const file of files) {
+    if (totalSize <= maxSize) {
+      break;
+    }
+    await fs.rm(file.filePath, { force: true });
+    totalSize -= file.size;
+  }
+}
+
+/**
+ * Cache files holding results fetched with an API key
+ */
+async function listOwnCacheFiles(
+  apiKey: string
+): Promise<{ filePath: string; size: number; mtimeMs: number; entry: CacheEntry }[]> {
+  const owner = sha256(apiKey);
+  const files = [];
+  for (const file of await listCacheFiles()) {
+    try {
+      const entry: CacheEntry = await readJsonFile(file.filePath);
+      if (entry.owner === owner) {
+        files.push({ ...file, entry });
+      }
+    } catch {
+      // Skip unreadable entries
+    }
+  }
+  return files;
+}
+
+/**
+ * Summarize the cache entries of an API key, newest first
+ * @param apiKey - Only entries fetched with this key are listed
+ */
+export async function getCacheStats(apiKey: string): Promise<CacheStats> {
+  const files = await listOwnCacheFiles(apiKey);
+  files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  const items: CacheEntrySummary[] = files.map(({ entry, size }) => ({
+    key: entry.key,
+    endpoint: entry.endpoint,
+    operation: entry.operation,
+    created_at: entry.created_at,
+    size_bytes: size,
+  }));
+
+  return {
+    directory: getCacheDirectory(),
+    entries: items.length,
+    total_size_bytes: files.reduce((sum, file) => sum + file.size, 0),
+    ttl_hours: getCacheTtl() / (60 * 60 * 1000),
+    max_size_bytes: getCacheMaxSize(),
+    items,
+  };
+}
+
+/**
+ * Remove the cache entries of an API key
+ * @param apiKey - Only entries fetched with this key are removed
+ * @param key - Remove only this entry; clears all entries of the API key when omitted
+ * @returns Number of entries removed
+ */
+export async function clearCache(apiKey: string, key?: string): Promise<number> {
+  const files = await listOwnCacheFiles(apiKey);
+  const targets = key ? files.filter((file) => path.basename(file.filePath, '.json') === key) : files;
+
+  for (const file of targets) {
+    await fs.rm(file.filePath, { force: true });
+  }
+  return targets.length;
+}
@@ -0,0 +1,350 @@
+/**
+ * Compact field specs for extraction schemas
+ *
+ * One field per line (or separated by commas):
+ *
+ *   invoice_number: string "Invoice number"
+ *   total_amount: number "Total including tax"
+ *   tags: string[]
+ *   items[]: {name: string, qty: number "Quantity"} "Line items"
+ *   vendor: "Vendor name"            (type defaults to string)
+ *
+ * A JSON object mapping field names to descriptions is accepted as well. Specs are
+ * expanded with createExtractionSchema into the full json_schema envelope.
+ */
+
+import { createExtractionSchema, toJsonSchemaPart, ExtractionSchema, SchemaProperty } from './schemaHelpers';
+
+const TYPE_ALIASES: Record<string, SchemaProperty['type']> = {
+  string: 'string',
+  str: 'string',
+  text: 'string',
+  number: 'number',
+  float: 'number',
+  integer: 'integer',
+  int: 'integer',
+  boolean: 'boolean',
+  bool: 'boolean',
+};
+
+type TokenKind = 'name' | 'string' | 'punct' | 'newline' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Syntax error in a schema spec, with the 1-based position of the offending token
+ */
+export class SchemaSpecError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`Line ${line}, column ${column}: ${message}`);
+    this.name = 'SchemaSpecError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+function tokenize(spec: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let column = 1;
+  let index = 0;
+
+  const advance = (count: number) => {
+    index += count;
+    column += count;
+  };
+
+  while (index < spec.length) {
+    const char = spec[index];
+
+    if (char === '\n') {
+      tokens.push({ kind: 'newline', value: char, line, column });
+      index++;
+      line++;
+      column = 1;
+    } else if (/\s/.test(char)) {
+      advance(1);
+    } else if (char === '#') {
+      // Comment until the end of the line
+      while (index < spec.length && spec[index] !== '\n') {
+        advance(1);
+      }
+    } else if ('{}[]:,;'.includes(char)) {
+      tokens.push({ kind: 'punct', value: char, line, column });
+      advance(1);
+    } else if (char === '"' || char === "'") {
+      const start = { line, column };
+      let value = '';
+      advance(1);
+      while (index < spec.length && spec[index] !== char) {
+        if (spec[index] === '\n') {
+          throw new SchemaSpecError('Unterminated string', start.line, start.column);
+        }
+        if (spec[index] === '\\' && index + 1 < spec.length) {
+          advance(1);
+        }
+        value += spec[index];
+        advance(1);
+      }
+      if (index >= spec.length) {
+        throw new SchemaSpecError('Unterminated string', start.line, start.column);
+      }
+      advance(1);
+      tokens.push({ kind: 'string', value, ...start });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = spec.slice(index).match(/^[A-Za-z_][A-Za-z0-9_-]*/)!;
+      tokens.push({ kind: 'name', value: match[0], line, column });
+      advance(match[0].length);
+    } else {
+      throw new SchemaSpecError(`Unexpected character "${char}"`, line, column);
+    }
+  }
+
+  tokens.push({ kind: 'end', value: '', line, column });
+  return tokens;
+}
+
+class SpecParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Record<string, SchemaProperty> {
+    const fields = this.parseFields('end');
+    if (Object.keys(fields).length === 0) {
+      const token = this.peek();
+      throw new SchemaSpecError('Expected at least one field', token.line, token.column);
+    }
+    return fields;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+
+  private accept(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'punct' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string, what: string): void {
+    if (!this.accept(value)) {
+      this.fail(`Expected ${what}`);
+    }
+  }
+
+  private fail(message: string): never {
+    const token = this.peek();
+    const found =
+      token.kind === 'end' ? 'end of input' : token.kind === 'newline' ? 'end of line' : `"${token.value}"`;
+    throw new SchemaSpecError(`${message}, found ${found}`, token.line, token.column);
+  }
+
+  private isSeparator(token: Token): boolean {
+    return token.kind === 'newline' || (token.kind === 'punct' && (token.value === ',' || token.value === ';'));
+  }
+
+  /**
+   * Fields up to the closing token: 'end' at the top level, '}' inside an object
+   */
+  private parseFields(closing: 'end' | '}'): Record<string, SchemaProperty> {
+    const fields: Record<string, SchemaProperty> = {};
+
+    for (;;) {
+      while (this.isSeparator(this.peek())) {
+        this.position++;
+      }
+
+      const token = this.peek();
+      if (closing === 'end' ? token.kind === 'end' : token.kind === 'punct' && token.value === '}') {
+        return fields;
+      }
+      if (token.kind === 'end') {
+        this.fail('Expected "}"');
+      }
+
+      const name = token;
+      const [fieldName, property] = this.parseField();
+      if (Object.prototype.hasOwnProperty.call(fields, fieldName)) {
+        throw new SchemaSpecError(`Duplicate field "${fieldName}"`, name.line, name.column);
+      }
+      fields[fieldName] = property;
+
+      const after = this.peek();
+      if (!this.isSeparator(after) && after.kind !== 'end' && !(after.kind === 'punct' && after.value === '}')) {
+        this.fail('Expected a new line or "," after the field');
+      }
+    }
+  }
+
+  private parseField(): [string, SchemaProperty] {
+    const nameToken = this.next();
+    if (nameToken.kind !== 'name' && nameToken.kind !== 'string') {
+      this.position--;
+      this.fail('Expected a field name');
+    }
+
+    // items[]: {...} declares an array of the given type
+    let isArray = false;
+    if (this.accept('[')) {
+      this.expect(']', '"]"');
+      isArray = true;
+    }
+    this.expect(':', '":" after the field name');
+
+    let property: SchemaProperty;
+    const token = this.peek();
+    if (this.accept('{')) {
+      property = { type: 'object', properties: this.parseFields('}') };
+      this.expect('}', '"}"');
+    } else if (token.kind === 'name') {
+      const type = TYPE_ALIASES[token.value.toLowerCase()];
+      if (!type) {
+        throw new SchemaSpecError(
+          `Unknown type "${token.value}"; use string, number, integer or boolean`,
+          token.line,
+          token.column
+        );
+      }
+      this.position++;
+      property = { type };
+    } else if (token.kind === 'string') {
+      // field: "description" is a string field
+      property = { type: 'string' };
+    } else {
+      this.fail('Expected a type, "{" or a description');
+    }
+
+    if (this.accept('[')) {
+      this.expect(']', '"]"');
+      isArray = true;
+    }
+
+    let description: string | undefined;
+    if (this.peek().kind === 'string') {
+      description = this.next().value;
+    }
+
+    if (isArray) {
+      property = { type: 'array', items: property };
+    }
+    if (description !== undefined) {
+      property.description = description;
+    }
+
+    return [nameToken.value, property];
+  }
+}
+
+/**
+ * Expand a { field: description } map; values may also be full property definitions
+ */
+function expandFieldMap(map: Record<string, any>): Record<string, SchemaProperty> {
+  const fields: Record<string, SchemaProperty> = {};
+  for (const [name, value] of Object.entries(map)) {
+    if (typeof value === 'string') {
+      fields[name] = { type: 'string', description: value };
+    } else if (value && typeof value === 'object' && typeof value.type === 'string') {
+      fields[name] = value;
+    } else {
+      throw new Error(`Field "${name}" must map to a description or a property with a "type"`);
+    }
+  }
+  if (Object.keys(fields).length === 0) {
+    throw new Error('Expected at least one field');
+  }
+  return fields;
+}
+
+/**
+ * Drop braces around the whole spec, e.g. {name: string, qty: number}
+ */
+function unwrapBraces(tokens: Token[]): Token[] {
+  const start = tokens.findIndex((token) => token.kind !== 'newline');
+  if (tokens[start].kind !== 'punct' || tokens[start].value !== '{') {
+    return tokens;
+  }
+
+  let depth = 0;
+  for (let index = start; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token.kind === 'punct' && (token.value === '{' || token.value === '}')) {
+      depth += token.value === '{' ? 1 : -1;
+    }
+    if (depth === 0) {
+      // Only unwrap if the matching brace is the last token
+      const rest = tokens.slice(index + 1).filter((next) => next.kind !== 'newline' && next.kind !== 'end');
+      if (rest.length > 0) {
+        return tokens;
+      }
+      return [...tokens.slice(0, start), ...tokens.slice(start + 1, index), ...tokens.slice(index + 1)];
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse the field definitions of a compact schema spec
+ * @param spec - Field spec or a JSON { field: description } map
+ * @returns Property definitions keyed by field name
+ * @throws SchemaSpecError with line and column for syntax errors
+ */
+export function parseSchemaFields(spec: string): Record<string, SchemaProperty> {
+  const trimmed = spec.trim();
+
+  if (trimmed.startsWith('{')) {
+    let map: any;
+    try {
+      map = JSON.parse(trimmed);
+    } catch {
+      // Not JSON; parse as a spec whose fields are wrapped in braces
+    }
+    if (map && typeof map === 'object' && !Array.isArray(map)) {
+      return expandFieldMap(map);
+    }
+  }
+
+  const tokens = tokenize(spec);
+  return new SpecParser(unwrapBraces(tokens)).parse();
+}
+
+/**
+ * Build a full extraction schema from a compact spec
+ * @param spec - Field spec, a JSON { field: description } map, or a full schema
+ * @param name - Schema name (defaults to 'document_schema')
+ * @returns Schema in the format expected by extract_information
+ * @throws SchemaSpecError with line and column for syntax errors
+ */
+export function parseSchemaSpec(spec: string, name?: string): ExtractionSchema {
+  // The full envelope (or its json_schema part) passes through unchanged
+  if (spec.trim().startsWith('{')) {
+    try {
+      const parsed = JSON.parse(spec);
+      if (parsed?.type === 'json_schema' || (parsed?.name && parsed?.schema)) {
+        return { type: 'json_schema', json_schema: toJsonSchemaPart(parsed) };
+      }
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) {
+        throw error;
+      }
+    }
+  }
+
+  return createExtractionSchema(parseSchemaFields(spec), name);
+}
@@ -0,0 +1,309 @@
+/**
+ * Structured edits to extraction schemas
+ *
+ * Fields are addressed by path: `total_amount`, `vendor.name`, or `items[].quantity`
+ * for fields of the objects in an array.
+ */
+
+import { SchemaProperty, validateSchemaFormat } from './schemaHelpers';
+import { ValidationError } from './errors';
+
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+export type SchemaEditOperation =
+  | { op: 'add'; path: string; type: FieldType; description?: string; items_type?: FieldType }
+  | { op: 'remove'; path: string }
+  | { op: 'rename'; path: string; new_name: string }
+  | { op: 'set_type'; path: string; type: FieldType; items_type?: FieldType }
+  | { op: 'set_description'; path: string; description: string }
+  | { op: 'wrap_array'; path: string; description?: string }
+  | { op: 'nest'; paths: string[]; under: string; description?: string };
+
+export interface SchemaDiffEntry {
+  path: string;
+  change: 'added' | 'removed' | 'modified';
+  before?: { type: string; description?: string };
+  after?: { type: string; description?: string };
+}
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+interface FieldLocation {
+  /** Properties object holding the field */
+  properties: Record<string, any>;
+  name: string;
+}
+
+function splitPath(path: string): string[] {
+  const segments = path.split('.');
+  if (segments.some((segment) => !/^[A-Za-z_][A-Za-z0-9_-]*(\[\])?$/.test(segment))) {
+    throw new Error(`Invalid field path "${path}"; use names such as vendor.name or items[].quantity`);
+  }
+  return segments;
+}
+
+/**
+ * Find the properties object that holds the field at a path
+ */
+function locate(root: Record<string, any>, path: string): FieldLocation {
+  const segments = splitPath(path);
+  const last = segments.pop()!;
+  if (last.endsWith('[]')) {
+    throw new Error(`Path "${path}" must end with a field name`);
+  }
+
+  let node = root;
+  let walked = '';
+  for (const segment of segments) {
+    const isArray = segment.endsWith('[]');
+    const name = isArray ? segment.slice(0, -2) : segment;
+    walked = walked ? `${walked}.${segment}` : segment;
+
+    let child = node.properties?.[name];
+    if (!child) {
+      throw new Error(`Field not found: ${walked.replace(/\[\]$/, '')}`);
+    }
+    if (isArray) {
+      if (child.type !== 'array') {
+        throw new Error(`Field ${walked.slice(0, -2)} is not an array`);
+      }
+      child = child.items;
+    }
+    if (child?.type !== 'object') {
+      throw new Error(`Field ${walked} is not an object${isArray ? '' : '; use name[] for the items of an array'}`);
+    }
+    child.properties = child.properties || {};
+    node = child;
+  }
+
+  return { properties: node.properties, name: last };
+}
+
+function getField(root: Record<string, any>, path: string): FieldLocation & { field: Record<string, any> } {
+  const location = locate(root, path);
+  const field = location.properties[location.name];
+  if (!field) {
+    throw new Error(`Field not found: ${path}`);
+  }
+  return { ...location, field };
+}
+
+function emptyProperty(type: FieldType, itemsType: FieldType = 'string'): SchemaProperty {
+  if (type === 'object') {
+    return { type, properties: {} };
+  }
+  if (type === 'array') {
+    return { type, items: emptyProperty(itemsType) };
+  }
+  return { type };
+}
+
+/**
+ * Rebuild a properties object with one entry replaced, keeping the field order
+ */
+function replaceEntry(
+  properties: Record<string, any>,
+  name: string,
+  newName: string,
+  value: any
+): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(properties).map(([key, current]) => (key === name ? [newName, value] : [key, current]))
+  );
+}
+
+function assignProperties(target: Record<string, any>, source: Record<string, any>): void {
+  for (const key of Object.keys(target)) {
+    delete target[key];
+  }
+  Object.assign(target, source);
+}
+
+function applyOperation(root: Record<string, any>, operation: SchemaEditOperation): void {
+  switch (operation.op) {
+    case 'add': {
+      const { properties, name } = locate(root, operation.path);
+      if (properties[name]) {
+        throw new Error(`Field already exists: ${operation.path}`);
+      }
+      properties[name] = emptyProperty(operation.type, operation.items_type);
+      if (operation.description) {
+        properties[name].description = operation.description;
+      }
+      return;
+    }
+    case 'remove': {
+      const { properties, name } = getField(root, operation.path);
+      delete properties[name];
+      return;
+    }
+    case 'rename': {
+      const { properties, name, field } = getField(root, operation.path);
+      if (!FIELD_NAME_PATTERN.test(operation.new_name)) {
+        throw new Error(`Invalid field name "${operation.new_name}"`);
+      }
+      if (properties[operation.new_name]) {
+        throw new Error(`Field already exists: ${operation.new_name}`);
+      }
+      assignProperties(properties, replaceEntry(properties, name, operation.new_name, field));
+      return;
+    }
+    case 'set_type': {
+      const { properties, name, field } = getField(root, operation.path);
+      const updated: Record<string, any> = emptyProperty(operation.type, operation.items_type);
+      // Keep nested fields when the structure stays the same
+      if (operation.type === field.type && operation.type === 'object') {
+        updated.properties = field.properties;
+      }
+      if (operation.type === field.type && operation.type === 'array' && !operation.items_type) {
+        updated.items = field.items;
+      }
+      if (field.description) {
+        updated.description = field.description;
+      }
+      properties[name] = updated;
+      return;
+    }
+    case 'set_description': {
+      const { field } = getField(root, operation.path);
+      if (operation.description) {
+        field.description = operation.description;
+      } else {
+        delete field.description;
+      }
+      return;
+    }
+    case 'wrap_array': {
+      const { properties, name, field } = getField(root, operation.path);
+      const { description, ...items } = field;
+      const wrapped: Record<string, any> = { type: 'array', items };
+      if (operation.description || description) {
+        wrapped.description = operation.description || description;
+      }
+      properties[name] = wrapped;
+      return;
+    }
+    case 'nest': {
+      if (operation.paths.length === 0) {
+        throw new Error('No fields to nest');
+      }
+      const { under } = operation;
+      if (operation.paths.some((path) => path === under || path.startsWith(`${under}.`))) {
+        throw new Error(`Cannot nest ${under} inside itself`);
+      }
+      // Moving a field that contains the target would detach the target with it
+      const enclosing = operation.paths.find((path) => under.startsWith(`${path}.`) || under.startsWith(`${path}[].`));
+      if (enclosing) {
+        throw new Error(`Cannot nest ${enclosing} inside ${under}, which it contains`);
+      }
+      const target = locate(root, operation.under);
+      let container = target.properties[target.name];
+      if (container && container.type !== 'object') {
+        throw new Error(`Field ${operation.under} is not an object`);
+      }
+      if (!container) {
+        container = { type: 'object', properties: {} };
+        if (operation.description) {
+          container.description = operation.description;
+        }
+      }
+      container.properties = container.properties || {};
+
+      // The new object takes the place of the first moved field
+      const moved = operation.paths.map((path) => getField(root, path));
+      for (const { properties, name, field } of moved) {
+        if (container.properties[name]) {
+          throw new Error(`Field ${operation.under}.${name} already exists`);
+        }
+        container.properties[name] = field;
+        if (properties === target.properties && !target.properties[target.name]) {
+          assignProperties(properties, replaceEntry(properties, name, target.name, container));
+        } else {
+          delete properties[name];
+        }
+      }
+      target.properties[target.name] = container;
+      return;
+    }
+    default:
+      throw new Error(`Unknown operation: ${(operation as any).op}`);
+  }
+}
+
+/**
+ * Apply edit operations to an extraction schema
+ * @param schema - The json_schema part of an extraction schema; not modified
+ * @param operations - Operations applied in order
+ * @returns The edited json_schema part, checked with validateSchemaFormat
+ * @throws ValidationError naming the operation that failed
+ */
+export function editSchema(schema: Record<string, any>, operations: SchemaEditOperation[]): Record<string, any> {
+  const edited = JSON.parse(JSON.stringify(schema));
+  edited.schema = edited.schema || { type: 'object', properties: {} };
+
+  operations.forEach((operation, index) => {
+    try {
+      applyOperation(edited.schema, operation);
+    } catch (error) {
+      throw new ValidationError(
+        `Operation ${index + 1} (${operation.op}) failed: ${error instanceof Error ? error.message : error}`,
+        { hint: 'No changes were applied' }
+      );
+    }
+  });
+
+  try {
+    validateSchemaFormat({ type: 'json_schema', json_schema: edited });
+  } catch (error) {
+    throw new ValidationError(`Edited schema is invalid: ${error instanceof Error ? error.message : error}`, {
+      code: 'INVALID_SCHEMA',
+    });
+  }
+  return edited;
+}
+
+function flattenFields(
+  properties: Record<string, any>,
+  prefix: string,
+  fields: Map<string, { type: string; description?: string }>
+): void {
+  for (const [name, field] of Object.entries<any>(properties || {})) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    const type = field?.type === 'array' && field.items?.type ? `array<${field.items.type}>` : field?.type;
+    fields.set(path, field?.description ? { type, description: field.description } : { type });
+
+    if (field?.type === 'object') {
+      flattenFields(field.properties, path, fields);
+    } else if (field?.type === 'array' && field.items?.type === 'object') {
+      flattenFields(field.items.properties, `${path}[]`, fields);
+    }
+  }
+}
+
+/**
+ * List the fields added, removed or modified between two versions of a schema
+ * @param before - The json_schema part before the change
+ * @param after - The json_schema part after the change
+ */
+export function diffSchemas(before: Record<string, any>, after: Record<string, any>): SchemaDiffEntry[] {
+  const beforeFields = new Map<string, { type: string; description?: string }>();
+  const afterFields = new Map<string, { type: string; description?: string }>();
+  flattenFields(before.schema?.properties, '', beforeFields);
+  flattenFields(after.schema?.properties, '', afterFields);
+
+  const diff: SchemaDiffEntry[] = [];
+  for (const [path, field] of beforeFields) {
+    const updated = afterFields.get(path);
+    if (!updated) {
+      diff.push({ path, change: 'removed', before: field });
+    } else if (updated.type !== field.type || updated.description !== field.description) {
+      diff.push({ path, change: 'modified', before: field, after: updated });
+    }
+  }
+  for (const [path, field] of afterFields) {
+    if (!beforeFields.has(path)) {
+      diff.push({ path, change: 'added', after: field });
+    }
+  }
+  return diff;
+}
@@ -2,14 +2,17 @@
  * Schema validation and helper utilities for information extraction
  */
 
-interface SchemaProperty {
-  type: 'string' | 'number' | 'boolean' | 'array' | 'object' | 'null';
+import { readJsonFile } from './fileUtils';
+import { ValidationError } from './errors';
+
+export interface SchemaProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
   description?: string;
   items?: SchemaProperty;
   properties?: Record<string, SchemaProperty>;
 }
 
-interface ExtractionSchema {
+export interface ExtractionSchema {
   type: 'json_schema';
   json_schema: {
     name: string;
@@ -172,6 +175,47 @@ export const commonSchemas = {
   }),
 };
 
+/**
+ * Accept a full response_format schema or only its json_schema part (as saved by generate_schema)
+ * @param schema - Schema object in either form
+ * @returns The validated json_schema part
+ * @throws Error if schema format is wrong
+ */
+export function toJsonSchemaPart(schema: any): ExtractionSchema['json_schema'] {
+  const fullSchema = schema?.type === 'json_schema' ? schema : { type: 'json_schema', json_schema: schema };
+  validateSchemaFormat(fullSchema);
+  return fullSchema.json_schema;
+}
+
+/**
+ * Read a schema file given as schema_path
+ *
+ * Accepts the file generate_schema writes, which wraps the schema in { generated_schema, metadata },
+ * as well as a bare schema in either form accepted by toJsonSchemaPart.
+ * @param schemaPath - Path of the JSON file
+ * @param hint - Hint for errors, when the file is not an extraction schema
+ * @returns The schema, without the generate_schema wrapper
+ * @throws ValidationError with code FILE_NOT_FOUND or INVALID_SCHEMA if the file is missing or not JSON
+ */
+export async function readSchemaFile(schemaPath: string, hint?: string): Promise<any> {
+  let content: any;
+  try {
+    content = await readJsonFile(schemaPath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new ValidationError(`Schema file not found: ${schemaPath}`, {
+        code: 'FILE_NOT_FOUND',
+        hint: hint ?? 'Pass the schema_saved_to path returned by generate_schema',
+      });
+    }
+    throw new ValidationError(`Cannot read schema file ${schemaPath}: ${error.message}`, {
+      code: 'INVALID_SCHEMA',
+      hint: hint ?? 'The file must contain a JSON schema, such as one saved by generate_schema',
+    });
+  }
+  return content?.generated_schema && content.metadata ? content.generated_schema : content;
+}
+
 /**
  * Convert a schema object to a JSON string suitable for the schema_json parameter
  * @param schema - Schema object
@@ -0,0 +1,186 @@
+/**
+ * Merge extraction schemas generated from several sample documents
+ *
+ * Fields are unioned across samples. Conflicting types are reconciled (integer and
+ * number become number, mixed scalars become string, otherwise the most common type
+ * wins) and the most common description is kept. Each field records how many samples
+ * it appeared in.
+ */
+
+import { createExtractionSchema, ExtractionSchema, SchemaProperty } from './schemaHelpers';
+
+export interface FieldCoverage {
+  /** Field path such as total_amount or items[].quantity */
+  path: string;
+  /** Number of samples whose schema contained the field; for nested fields, among samples with the parent */
+  present_in: number;
+  /** present_in as a fraction of those samples */
+  coverage: number;
+  /** Type chosen for the merged schema */
+  type: string;
+  /** How often each type was generated, when the samples disagree */
+  type_conflicts?: Record<string, number>;
+  /** False when the field was dropped for falling below the minimum coverage */
+  included: boolean;
+}
+
+export interface MergedSchema {
+  schema: ExtractionSchema;
+  coverage: FieldCoverage[];
+}
+
+interface MergeOptions {
+  /** Schema name for the merged schema */
+  name?: string;
+  /** Drop top-level fields found in fewer than this fraction of samples (0-1) */
+  minCoverage?: number;
+}
+
+const SCALAR_TYPES = new Set(['string', 'number', 'integer', 'boolean']);
+
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  let best: string | undefined;
+  for (const [value, count] of counts) {
+    // Ties go to the longer value, which is usually the more specific description
+    const bestCount = best === undefined ? 0 : counts.get(best)!;
+    if (count > bestCount || (count === bestCount && value.length > best!.length)) {
+      best = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Pick one type for a field from the types the samples disagree on
+ */
+function reconcileTypes(types: string[]): string {
+  const distinct = [...new Set(types)];
+  if (distinct.length === 1) {
+    return distinct[0];
+  }
+  if (distinct.every((type) => type === 'number' || type === 'integer')) {
+    return 'number';
+  }
+  // Any scalar can be represented as text
+  if (distinct.every((type) => SCALAR_TYPES.has(type))) {
+    return 'string';
+  }
+  return mostCommon(types)!;
+}
+
+/**
+ * Merge the definitions of one field
+ * @param variants - Definitions of the field, one per sample that contained it
+ * @param sampleCount - Samples that could have contained the field
+ * @param path - Field path for the coverage report
+ * @param coverage - Report entries are appended here, nested fields included
+ */
+function mergeProperty(
+  variants: Record<string, any>[],
+  sampleCount: number,
+  path: string,
+  coverage: FieldCoverage[]
+): SchemaProperty {
+  const types = variants.map((variant) => (typeof variant.type === 'string' ? variant.type : 'string'));
+  const type = reconcileTypes(types) as SchemaProperty['type'];
+
+  const entry: FieldCoverage = {
+    path,
+    present_in: variants.length,
+    coverage: Number((variants.length / sampleCount).toFixed(2)),
+    type,
+    included: true,
+  };
+  if (new Set(types).size > 1) {
+    entry.type_conflicts = Object.fromEntries(
+      [...new Set(types)].map((value) => [value, types.filter((candidate) => candidate === value).length])
+    );
+  }
+  coverage.push(entry);
+
+  const property: SchemaProperty = { type };
+  const description = mostCommon(
+    variants.map((variant) => variant.description).filter((value): value is string => typeof value === 'string')
+  );
+  if (description) {
+    property.description = description;
+  }
+
+  const matching = variants.filter((variant) => variant.type === type);
+  if (type === 'object') {
+    property.properties = mergeProperties(
+      matching.map((variant) => variant.properties || {}),
+      path,
+      coverage
+    );
+  } else if (type === 'array') {
+    const items = matching.map((variant) => variant.items).filter(Boolean);
+    if (items.length > 0) {
+      const itemCoverage: FieldCoverage[] = [];
+      property.items = mergeProperty(items, matching.length, `${path}[]`, itemCoverage);
+      // The item entry repeats the array entry; only its nested fields are reported
+      coverage.push(...itemCoverage.slice(1));
+    }
+  }
+
+  return property;
+}
+
+function mergeProperties(
+  propertySets: Record<string, any>[],
+  parentPath: string,
+  coverage: FieldCoverage[]
+): Record<string, SchemaProperty> {
+  // Field order follows the first sample that contained each field
+  const names: string[] = [];
+  for (const properties of propertySets) {
+    for (const name of Object.keys(properties)) {
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+    }
+  }
+
+  const merged: Record<string, SchemaProperty> = {};
+  for (const name of names) {
+    const variants = propertySets.filter((properties) => properties[name]).map((properties) => properties[name]);
+    const path = parentPath ? `${parentPath}.${name}` : name;
+    merged[name] = mergeProperty(variants, propertySets.length, path, coverage);
+  }
+  return merged;
+}
+
+/**
+ * Merge schemas generated from several samples into one
+ * @param schemas - The json_schema part of each generated schema
+ * @param options - Name of the merged schema and minimum coverage of top-level fields
+ * @returns The merged schema and per-field coverage in schema order
+ */
+export function mergeSchemas(schemas: Record<string, any>[], options: MergeOptions = {}): MergedSchema {
+  const { minCoverage = 0 } = options;
+  const coverage: FieldCoverage[] = [];
+  const properties = mergeProperties(
+    schemas.map((schema) => schema.schema?.properties || {}),
+    '',
+    coverage
+  );
+
+  for (const entry of coverage) {
+    const topLevel = entry.path.split(/[.[]/)[0];
+    const topEntry = coverage.find((candidate) => candidate.path === topLevel)!;
+    if (topEntry.present_in / schemas.length < minCoverage) {
+      entry.included = false;
+      delete properties[topLevel];
+    }
+  }
+
+  const name = options.name || mostCommon(schemas.map((schema) => schema.name).filter(Boolean)) || 'document_schema';
+  return {
+    schema: createExtractionSchema(properties, name),
+    coverage,
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Named extraction schemas with version history
+ *
+ * Each schema is stored as ~/.mcp-upstage/schemas/<name>.json holding every saved version.
+ * The library is seeded with the built-in commonSchemas the first time it is used.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { ensureDirectoryExists, saveJsonToFile, readJsonFile } from './fileUtils';
+import { commonSchemas, toJsonSchemaPart } from './schemaHelpers';
+import { ValidationError } from './errors';
+
+const SCHEMA_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export interface SchemaVersion {
+  version: number;
+  created_at: string;
+  note?: string;
+  /** The json_schema part of the extraction schema */
+  schema: Record<string, any>;
+}
+
+interface StoredSchema {
+  name: string;
+  description?: string;
+  created_at: string;
+  updated_at: string;
+  versions: SchemaVersion[];
+}
+
+export interface SchemaField {
+  name: string;
+  type: string;
+  description?: string;
+}
+
+export interface NamedSchemaSummary {
+  name: string;
+  description?: string;
+  latest_version: number;
+  updated_at: string;
+  fields: SchemaField[];
+}
+
+export interface NamedSchema extends NamedSchemaSummary {
+  version: number;
+  schema: Record<string, any>;
+  versions: { version: number; created_at: string; note?: string }[];
+}
+
+export function getSchemaLibraryDirectory(): string {
+  return path.join(os.homedir(), '.mcp-upstage', 'schemas');
+}
+
+export function isValidSchemaName(name: string): boolean {
+  return SCHEMA_NAME_PATTERN.test(name);
+}
+
+function getSchemaPath(name: string): string {
+  if (!isValidSchemaName(name)) {
+    throw new ValidationError(`Invalid schema name: ${name}`, {
+      hint: 'Use up to 64 letters, digits, "_" or "-", starting with a letter or digit',
+    });
+  }
+  return path.join(getSchemaLibraryDirectory(), `${name}.json`);
+}
+
+/**
+ * Create the library directory and store the built-in schemas on first use
+ */
+async function ensureSchemaLibrary(): Promise<void> {
+  const directory = getSchemaLibraryDirectory();
+  try {
+    await fs.access(directory);
+    return;
+  } catch {
+    // First use
+  }
+
+  await ensureDirectoryExists(directory);
+  const now = new Date().toISOString();
+  for (const [name, schema] of Object.entries(commonSchemas)) {
+    const stored: StoredSchema = {
+      name,
+      description: `Built-in ${name} schema`,
+      created_at: now,
+      updated_at: now,
+      versions: [{ version: 1, created_at: now, note: 'Built-in schema', schema: schema.json_schema }],
+    };
+    await saveJsonToFile(stored, getSchemaPath(name), { indent: 2 });
+  }
+}
+
+async function readStoredSchema(name: string): Promise<StoredSchema> {
+  await ensureSchemaLibrary();
+  try {
+    return await readJsonFile(getSchemaPath(name));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new ValidationError(`Unknown schema: ${name}`, {
+        code: 'NOT_FOUND',
+        hint: 'Use list_schemas to see the saved schemas',
+      });
+    }
+    throw error;
+  }
+}
+
+function describeType(property: any): string {
+  if (property?.type === 'array') {
+    return `array<${describeType(property.items)}>`;
+  }
+  return property?.type || 'any';
+}
+
+/**
+ * List the top-level fields of a schema
+ * @param schema - The json_schema part of an extraction schema
+ */
+export function summarizeSchemaFields(schema: Record<string, any>): SchemaField[] {
+  return Object.entries<any>(schema.schema?.properties || {}).map(([name, property]) => ({
+    name,
+    type: describeType(property),
+    description: property?.description,
+  }));
+}
+
+function toSummary(stored: StoredSchema): NamedSchemaSummary {
+  const latest = stored.versions[stored.versions.length - 1];
+  return {
+    name: stored.name,
+    description: stored.description,
+    latest_version: latest.version,
+    updated_at: stored.updated_at,
+    fields: summarizeSchemaFields(latest.schema),
+  };
+}
+
+/**
+ * Save a schema under a name, adding a new version if the name exists
+ * @param name - Schema name
+ * @param schema - Full response_format schema or its json_schema part
+ * @param options - Description of the schema and a note for this version
+ * @returns The saved schema; the version is unchanged if the schema equals the latest version
+ * @throws ValidationError for invalid names or schemas
+ */
+export async function saveNamedSchema(
+  name: string,
+  schema: Record<string, any>,
+  options: { description?: string; note?: string } = {}
+): Promise<NamedSchema> {
+  let jsonSchema: Record<string, any>;
+  try {
+    jsonSchema = toJsonSchemaPart(schema);
+  } catch (error) {
+    throw new ValidationError(`Invalid schema format: ${error instanceof Error ? error.message : error}`, {
+      code: 'INVALID_SCHEMA',
+    });
+  }
+
+  const schemaPath = getSchemaPath(name);
+  await ensureSchemaLibrary();
+
+  const now = new Date().toISOString();
+  let stored: StoredSchema;
+  try {
+    stored = await readJsonFile(schemaPath);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+    stored = { name, created_at: now, updated_at: now, versions: [] };
+  }
+
+  const latest = stored.versions[stored.versions.length - 1];
+  if (!latest || JSON.stringify(latest.schema) !== JSON.stringify(jsonSchema)) {
+    stored.versions.push({
+      version: (latest?.version || 0) + 1,
+      created_at: now,
+      note: options.note,
+      schema: jsonSchema,
+    });
+    stored.updated_at = now;
+  }
+  if (options.description !== undefined) {
+    stored.description = options.description;
+  }
+
+  await saveJsonToFile(stored, schemaPath, { indent: 2 });
+
+  return getNamedSchema(name);
+}
+
+/**
+ * Get a saved schema
+ * @param name - Schema name
+ * @param version - Version to return; the latest when omitted
+ * @throws ValidationError with code NOT_FOUND for unknown names or versions
+ */
+export async function getNamedSchema(name: string, version?: number): Promise<NamedSchema> {
+  const stored = await readStoredSchema(name);
+  const selected =
+    version === undefined
+      ? stored.versions[stored.versions.length - 1]
+      : stored.versions.find((entry) => entry.version === version);
+
+  if (!selected) {
+    throw new ValidationError(`Schema ${name} has no version ${version}`, {
+      code: 'NOT_FOUND',
+      hint: `Available versions: ${stored.versions.map((entry) => entry.version).join(', ')}`,
+    });
+  }
+
+  return {
+    ...toSummary(stored),
+    version: selected.version,
+    fields: summarizeSchemaFields(selected.schema),
+    schema: selected.schema,
+    versions: stored.versions.map(({ version, created_at, note }) => ({ version, created_at, note })),
+  };
+}
+
+/**
+ * Check whether a schema with this name is saved
+ */
+export async function hasNamedSchema(name: string): Promise<boolean> {
+  if (!isValidSchemaName(name)) {
+    return false;
+  }
+  await ensureSchemaLibrary();
+  try {
+    await fs.access(getSchemaPath(name));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List saved schemas by name
+ */
+export async function listNamedSchemas(): Promise<NamedSchemaSummary[]> {
+  await ensureSchemaLibrary();
+  const names = (await fs.readdir(getSchemaLibraryDirectory()))
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => path.basename(file, '.json'))
+    .sort();
+
+  const summaries: NamedSchemaSummary[] = [];
+  for (const name of names) {
+    try {
+      summaries.push(toSummary(await readStoredSchema(name)));
+    } catch {
+      // Skip unreadable entries
+    }
+  }
+  return summaries;
+}
+
+/**
+ * Delete a saved schema with all its versions
+ * @returns Number of versions removed
+ * @throws ValidationError with code NOT_FOUND for unknown names
+ */
+export async function deleteNamedSchema(name: string): Promise<number> {
+  const stored = await readStoredSchema(name);
+  await fs.rm(getSchemaPath(name), { force: true });
+  return stored.versions.length;
+}
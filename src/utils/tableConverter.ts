@@ -0,0 +1,227 @@
+/**
+ * Convert HTML tables from Document Parse into row/column data and CSV
+ *
+ * Cells spanning several rows or columns repeat their value in every position they
+ * cover, so each row has one value per column.
+ */
+
+export interface TableGrid {
+  /** Every row of the table, header rows included, padded to the same length */
+  rows: string[][];
+  /** Number of leading rows that form the header */
+  header_rows: number;
+  /** Column names built from the header rows, or column_1, column_2, ... without a header */
+  columns: string[];
+  /** Data rows keyed by column name */
+  records: Record<string, string>[];
+}
+
+interface HtmlCell {
+  text: string;
+  rowspan: number;
+  colspan: number;
+  header: boolean;
+}
+
+interface HtmlRow {
+  cells: HtmlCell[];
+  /** Row inside <thead> */
+  inHead: boolean;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function spanAttribute(attributes: string, name: 'rowspan' | 'colspan'): number {
+  const match = attributes.match(new RegExp(`${name}\\s*=\\s*["']?(\\d+)`, 'i'));
+  const value = match ? parseInt(match[1], 10) : 1;
+  return value > 0 ? value : 1;
+}
+
+/**
+ * Read the rows and cells of the first table in an HTML fragment
+ */
+function readHtmlRows(html: string): HtmlRow[] {
+  const rows: HtmlRow[] = [];
+  const tagPattern = /<(\/?)([a-z][a-z0-9]*)\b([^>]*)>/gi;
+  let inHead = false;
+  let row: HtmlRow | undefined;
+  let cell: HtmlCell | undefined;
+  let depth = 0;
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  const closeCell = () => {
+    if (cell && row) {
+      cell.text = decodeEntities(cell.text).replace(/\s+/g, ' ').trim();
+      row.cells.push(cell);
+    }
+    cell = undefined;
+  };
+  const closeRow = () => {
+    closeCell();
+    if (row) {
+      rows.push(row);
+    }
+    row = undefined;
+  };
+
+  while ((match = tagPattern.exec(html))) {
+    if (cell) {
+      cell.text += html.slice(position, match.index);
+    }
+    position = tagPattern.lastIndex;
+
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+
+    if (tag === 'table') {
+      depth += closing ? -1 : 1;
+      if (closing && depth === 0) {
+        break;
+      }
+      continue;
+    }
+    // Nested tables are flattened into the text of their cell
+    if (depth > 1) {
+      if (cell && (tag === 'td' || tag === 'th' || tag === 'br')) {
+        cell.text += ' ';
+      }
+      continue;
+    }
+
+    if (tag === 'thead') {
+      inHead = !closing;
+    } else if (tag === 'tr') {
+      closeRow();
+      if (!closing) {
+        row = { cells: [], inHead };
+      }
+    } else if (tag === 'td' || tag === 'th') {
+      closeCell();
+      if (!closing) {
+        // Cells outside a <tr> start a row of their own
+        row = row || { cells: [], inHead };
+        cell = {
+          text: '',
+          rowspan: spanAttribute(match[3], 'rowspan'),
+          colspan: spanAttribute(match[3], 'colspan'),
+          header: tag === 'th',
+        };
+      }
+    } else if (cell && (tag === 'br' || tag === 'p' || tag === 'div')) {
+      cell.text += ' ';
+    }
+  }
+  closeRow();
+
+  return rows;
+}
+
+/**
+ * Name each column after its header cells; repeated names get a numeric suffix
+ */
+function buildColumnNames(rows: string[][], headerRows: number, width: number): string[] {
+  const used = new Map<string, number>();
+
+  return Array.from({ length: width }, (_, column) => {
+    const parts: string[] = [];
+    for (let index = 0; index < headerRows; index++) {
+      const value = rows[index][column];
+      // A header cell spanning several rows repeats its value; name it once
+      if (value && parts[parts.length - 1] !== value) {
+        parts.push(value);
+      }
+    }
+
+    const base = parts.join(' / ') || `column_${column + 1}`;
+    const count = (used.get(base) || 0) + 1;
+    used.set(base, count);
+    return count === 1 ? base : `${base}_${count}`;
+  });
+}
+
+/**
+ * Convert an HTML table into rows, column names and records
+ * @param html - HTML fragment containing a <table>
+ * @returns The table grid; header rows are taken from <thead> or leading rows of <th> cells
+ */
+export function parseHtmlTable(html: string): TableGrid {
+  const htmlRows = readHtmlRows(html);
+  const grid: (string | undefined)[][] = [];
+
+  htmlRows.forEach((htmlRow, rowIndex) => {
+    grid[rowIndex] = grid[rowIndex] || [];
+    let column = 0;
+
+    for (const cell of htmlRow.cells) {
+      // Skip positions already covered by a rowspan from the rows above
+      while (grid[rowIndex][column] !== undefined) {
+        column++;
+      }
+      // A rowspan cannot reach past the last row of the table
+      const lastRow = Math.min(rowIndex + cell.rowspan, htmlRows.length);
+      for (let row = rowIndex; row < lastRow; row++) {
+        grid[row] = grid[row] || [];
+        for (let offset = 0; offset < cell.colspan; offset++) {
+          grid[row][column + offset] = cell.text;
+        }
+      }
+      column += cell.colspan;
+    }
+  });
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  const rows = grid.map((row) => Array.from({ length: width }, (_, column) => row[column] ?? ''));
+
+  let headerRows = htmlRows.findIndex((row) => !row.inHead);
+  if (headerRows === -1) {
+    headerRows = htmlRows.length;
+  }
+  if (headerRows === 0) {
+    headerRows = htmlRows.findIndex((row) => row.cells.length === 0 || row.cells.some((cell) => !cell.header));
+    if (headerRows === -1) {
+      headerRows = htmlRows.length;
+    }
+  }
+  // A table made only of header cells is treated as data
+  if (headerRows === rows.length) {
+    headerRows = 0;
+  }
+
+  const columns = buildColumnNames(rows, headerRows, width);
+  const records = rows
+    .slice(headerRows)
+    .map((row) => Object.fromEntries(columns.map((name, column) => [name, row[column]])));
+
+  return { rows, header_rows: headerRows, columns, records };
+}
+
+/**
+ * Format rows as CSV, quoting values that contain commas, quotes or line breaks
+ * @param rows - Table rows
+ * @returns CSV text with \r\n line endings
+ */
+export function tableToCsv(rows: string[][]): string {
+  return rows
+    .map((row) =>
+      row.map((value) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(',')
+    )
+    .join('\r\n');
+}
@@ -1,16 +1,23 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { ALLOWED_EXTENSIONS, FILE_LIMITS } from './constants';
+import { UnsupportedFileError, ValidationError } from './errors';
 
 export async function validateFileExists(filePath: string): Promise<void> {
   try {
     const stats = await fs.stat(filePath);
     if (!stats.isFile()) {
-      throw new Error(`Path is not a file: ${filePath}`);
+      throw new ValidationError(`Path is not a file: ${filePath}`, {
+        code: 'FILE_NOT_FOUND',
+        hint: 'Pass the absolute path of a document file, not a directory',
+      });
     }
   } catch (error: any) {
     if (error.code === 'ENOENT') {
-      throw new Error(`File not found: ${filePath}`);
+      throw new ValidationError(`File not found: ${filePath}`, {
+        code: 'FILE_NOT_FOUND',
+        hint: 'Check the path; relative paths resolve against the server working directory, so prefer absolute paths',
+      });
     }
     throw error;
   }
@@ -21,7 +28,10 @@ export async function validateFileSize(filePath: string, maxSize: number = FILE_
   if (stats.size > maxSize) {
     const sizeMB = (stats.size / (1024 * 1024)).toFixed(2);
     const maxSizeMB = (maxSize / (1024 * 1024)).toFixed(0);
-    throw new Error(`File size (${sizeMB}MB) exceeds maximum allowed size (${maxSizeMB}MB)`);
+    throw new ValidationError(`File size (${sizeMB}MB) exceeds maximum allowed size (${maxSizeMB}MB)`, {
+      code: 'FILE_TOO_LARGE',
+      hint: 'Compress the document or split it into smaller files',
+    });
   }
 }
 
@@ -31,9 +41,7 @@ export function validateFileExtension(
 ): void {
   const ext = path.extname(filePath).toLowerCase();
   if (!allowedExtensions.includes(ext)) {
-    throw new Error(
-      `Unsupported file format: ${ext}. Supported formats: ${allowedExtensions.join(', ')}`
-    );
+    throw new UnsupportedFileError(ext, allowedExtensions);
   }
 }
 